@@ -0,0 +1,94 @@
+import type { Easing, Point2D } from "./types";
+import { Utils } from "./utils";
+
+export interface PathOptions {
+    from: Point2D;
+    to: Point2D;
+    duration: number;
+    easing: Easing;
+    // Bézier control points, a straight path by default
+    controls?: [Point2D, Point2D];
+    // Release velocity in px/ms carried into the start of the path
+    velocity?: Point2D;
+}
+
+// Moves a point along a cubic Bézier on animation frames. `finished` resolves
+// to true at the end of the path, or to false when the animation is stopped
+export class PathAnimation {
+    public readonly finished: Promise<boolean>;
+    private point: Point2D;
+    private handle?: number;
+    private resolve?: (finished: boolean) => void;
+
+    constructor(options: PathOptions, step: (point: Point2D) => void) {
+        const { from, to, duration, easing } = options;
+        const [c1, c2] = options.controls ?? [
+            { x: from.x + (to.x - from.x) / 3, y: from.y + (to.y - from.y) / 3 },
+            { x: to.x - (to.x - from.x) / 3, y: to.y - (to.y - from.y) / 3 }
+        ];
+        const first = options.velocity ? PathAnimation.inertia(from, to, c1, options) : c1;
+
+        this.point = { ...from };
+        this.finished = new Promise(resolve => this.resolve = resolve);
+
+        const start = performance.now();
+        const frame = (now: number) => {
+            const t = duration > 0 ? Math.min(1, (now - start) / duration) : 1;
+
+            this.point = Utils.bezier(from, first, c2, to, easing(t));
+            step(this.point);
+
+            if (t < 1) {
+                this.handle = requestAnimationFrame(frame);
+            } else {
+                this.handle = undefined;
+                this.end(true);
+            }
+        };
+
+        this.handle = requestAnimationFrame(frame);
+    }
+
+    // Place the first control point so the path leaves `from` at the release
+    // velocity. The lead is capped to the length of the path
+    private static inertia(from: Point2D, to: Point2D, control: Point2D, options: PathOptions): Point2D {
+        const velocity = options.velocity!;
+
+        // Slope of the easing at the start, Bézier speed there is 3 * lead * slope / duration
+        const slope = options.easing(0.001) / 0.001;
+        if (slope <= 0) return control;
+
+        const lead = {
+            x: velocity.x * options.duration / (3 * slope),
+            y: velocity.y * options.duration / (3 * slope)
+        };
+        const length = Math.hypot(to.x - from.x, to.y - from.y);
+        const scale = Math.min(1, length / (Math.hypot(lead.x, lead.y) || 1));
+
+        return { x: from.x + lead.x * scale, y: from.y + lead.y * scale };
+    }
+
+    public get current(): Point2D {
+        return this.point;
+    }
+
+    public isRunning(): boolean {
+        return this.handle !== undefined;
+    }
+
+    // Stop where the point is, returning that point
+    public stop(): Point2D {
+        if (this.handle !== undefined) {
+            cancelAnimationFrame(this.handle);
+            this.handle = undefined;
+        }
+
+        this.end(false);
+        return this.point;
+    }
+
+    private end(finished: boolean): void {
+        this.resolve?.(finished);
+        this.resolve = undefined;
+    }
+}
@@ -0,0 +1,101 @@
+import { defaultBookmarkOptions } from "./constants";
+import type { TurnPage } from "./leaf-page";
+import type { Bookmark, BookmarkOptions, BookmarkStorage, LeafEventMap } from "./types";
+
+// Bookmarked pages of a book, persisted through a storage adapter
+export class Bookmarks {
+    private book: TurnPage;
+    private key: string;
+    private storage?: BookmarkStorage;
+    private bookmarks: Bookmark[] = [];
+
+    constructor(book: TurnPage, options: Partial<BookmarkOptions> = {}) {
+        this.book = book;
+        this.key = options.key ?? defaultBookmarkOptions.key;
+        this.storage = options.storage ?? this.getLocalStorage();
+        this.load();
+        this.book.attachBookmarks(this);
+    }
+
+    private getLocalStorage(): BookmarkStorage | undefined {
+        try {
+            return window.localStorage;
+        } catch {
+            // Storage can be blocked, bookmarks then only last for the session
+            return undefined;
+        }
+    }
+
+    private load(): void {
+        try {
+            const saved = JSON.parse(this.storage?.getItem(this.key) || '[]');
+            if (Array.isArray(saved)) {
+                this.bookmarks = saved.filter((bookmark): bookmark is Bookmark =>
+                    typeof bookmark?.page === 'number'
+                );
+            }
+        } catch (error) {
+            console.warn('Failed to load bookmarks', error);
+        }
+    }
+
+    private save(): void {
+        try {
+            this.storage?.setItem(this.key, JSON.stringify(this.bookmarks));
+        } catch (error) {
+            console.warn('Failed to save bookmarks', error);
+        }
+    }
+
+    private dispatchEvent<K extends 'bookmarkAdded' | 'bookmarkRemoved'>(name: K, detail: LeafEventMap[K]): void {
+        this.book.element.dispatchEvent(new CustomEvent(name, { detail }));
+    }
+
+    // Bookmark a page, the current one by default
+    public add(page: number = this.book.getPage(), label?: string): Bookmark {
+        if (page < 1 || page > this.book.getTotalPages()) {
+            throw new Error(`Invalid page number: ${page}`);
+        }
+
+        const existing = this.bookmarks.find(bookmark => bookmark.page === page);
+        if (existing && existing.label === label) return existing;
+
+        const bookmark: Bookmark = label === undefined ? { page } : { page, label };
+        this.bookmarks = this.bookmarks
+            .filter(item => item.page !== page)
+            .concat(bookmark)
+            .sort((a, b) => a.page - b.page);
+
+        this.save();
+        this.dispatchEvent('bookmarkAdded', { bookmark, bookmarks: this.list() });
+
+        return bookmark;
+    }
+
+    public remove(page: number = this.book.getPage()): void {
+        const bookmark = this.bookmarks.find(item => item.page === page);
+        if (!bookmark) return;
+
+        this.bookmarks = this.bookmarks.filter(item => item !== bookmark);
+
+        this.save();
+        this.dispatchEvent('bookmarkRemoved', { bookmark, bookmarks: this.list() });
+    }
+
+    public has(page: number = this.book.getPage()): boolean {
+        return this.bookmarks.some(bookmark => bookmark.page === page);
+    }
+
+    // Replace every bookmark, as when restoring the state of the book
+    public restore(bookmarks: Bookmark[]): void {
+        this.list()
+            .filter(bookmark => !bookmarks.some(item => item.page === bookmark.page))
+            .forEach(bookmark => this.remove(bookmark.page));
+
+        bookmarks.forEach(bookmark => this.add(bookmark.page, bookmark.label));
+    }
+
+    public list(): Bookmark[] {
+        return this.bookmarks.map(bookmark => ({ ...bookmark }));
+    }
+}
@@ -1,16 +1,28 @@
-import type { Corner, CornerDirection, FlipOptions, LeafOptions } from "./types";
+import type {
+    BookmarkOptions,
+    Corner,
+    CornerDirection,
+    Easing,
+    FlipOptions,
+    GestureOptions,
+    LeafLabels,
+    LeafOptions,
+    NavigatorOptions,
+    ShadingOptions,
+    SoundOptions,
+    UrlSyncOptions
+} from "./types";
 
 export const PI = Math.PI;
 export const A90 = PI / 2;
-export const isTouch = 'ontouchstart' in window;
 
-export const events: {
-    readonly start: string;
-    readonly move: string;
-    readonly end: string;
-} = isTouch
-        ? { start: 'touchstart', move: 'touchmove', end: 'touchend' }
-        : { start: 'mousedown', move: 'mousemove', end: 'mouseup' };
+// Pointer Events cover mouse, touch and pen alike
+export const events = {
+    start: 'pointerdown',
+    move: 'pointermove',
+    end: 'pointerup',
+    cancel: 'pointercancel'
+} as const;
 
 export const defaultCorners: Record<CornerDirection, Corner[]> = {
     backward: ['bl', 'tl'],
@@ -18,24 +30,107 @@ export const defaultCorners: Record<CornerDirection, Corner[]> = {
     all: ['tl', 'bl', 'tr', 'br']
 } as const;
 
+// Corners mirrored for right-to-left books
+export const rtlCorners: Record<CornerDirection, Corner[]> = {
+    backward: ['br', 'tr'],
+    forward: ['bl', 'tl'],
+    all: ['tl', 'bl', 'tr', 'br']
+} as const;
+
 export const displays = ['single', 'double'] as const;
 
+// Release speed in px/ms that finishes or cancels a flip regardless of progress
+export const FLING_VELOCITY = 0.5;
+
+// Default easing of turns, a cubic ease-out
+export const easeOut: Easing = t => 1 - Math.pow(1 - t, 3);
+
+// Length of the crossfade replacing turns in reduced motion (ms)
+export const CROSSFADE_DURATION = 200;
+
+// Quiet time after a change before stateChanged is sent (ms)
+export const STATE_CHANGE_DELAY = 250;
+
 
 export const defaultLeafOptions: LeafOptions = {
     page: 1,
     gradients: true,
+    effect: 'fold',
     duration: 600,
+    easing: easeOut,
     acceleration: true,
+    motion: 'auto',
+    keyboard: false,
     display: 'double',
+    responsive: false,
+    breakpoint: 768,
+    cover: false,
+    fillers: true,
+    threshold: 0.25,
+    riffleLeaves: 3,
+    riffleDuration: 150,
+    maxZoom: 3,
+    cornerSize: 50,
     when: undefined
 };
 
+export const defaultGestureOptions: Required<GestureOptions> = {
+    tapZone: 0.2,
+    swipeDistance: 50,
+    swipeVelocity: 0.3,
+    edgeGrab: false,
+    edgeSize: 30,
+    pointerTypes: ['touch', 'pen']
+};
+
+export const defaultShading: Required<ShadingOptions> = {
+    shadowColor: '#000',
+    shadowOpacity: 0.5,
+    highlightColor: '#fff',
+    highlightOpacity: 0.35,
+    spineOpacity: 0.25
+};
+
+export const defaultLabels: LeafLabels = {
+    book: 'Book',
+    page: (page, total) => `Page ${page} of ${total}`,
+    announce: (pages, total) => pages.length > 1
+        ? `Pages ${pages[0]} and ${pages[pages.length - 1]} of ${total}`
+        : `Page ${pages[0]} of ${total}`
+};
+
 export const defaultFlipOptions: FlipOptions = {
     folding: null,
     corners: 'forward',
     cornerSize: 100,
     gradients: true,
     duration: 600,
-    acceleration: true
+    easing: easeOut,
+    acceleration: true,
+    motion: 'auto',
+    threshold: 0.25,
+    responsive: false
+};
+
+export const defaultNavigatorOptions: Required<Pick<NavigatorOptions, 'thumbWidth' | 'gap' | 'overscan' | 'label'>> = {
+    thumbWidth: 80,
+    gap: 8,
+    overscan: 5,
+    label: 'Pages'
 };
 
+export const defaultUrlSyncOptions: Required<UrlSyncOptions> = {
+    mode: 'hash',
+    param: 'page',
+    history: 'push'
+};
+
+export const defaultBookmarkOptions: Required<Omit<BookmarkOptions, 'storage'>> = {
+    key: 'leaf-flip-bookmarks'
+};
+
+export const defaultSoundOptions: Required<Pick<SoundOptions, 'volume' | 'muted' | 'respectReducedMotion'>> = {
+    volume: 1,
+    muted: false,
+    respectReducedMotion: true
+};
@@ -0,0 +1,71 @@
+import type { FrameTiming, Point2D } from "./types";
+
+export interface DragLoopHandlers {
+    // Geometry and style updates for the latest point, once per frame
+    apply: (point: Point2D, time: number) => void;
+    frame?: (timing: FrameTiming) => void;
+}
+
+// Runs a drag on animation frames. Pointer moves only record the latest
+// point, which is applied once per frame however many moves arrived
+export class DragLoop {
+    private handlers: DragLoopHandlers;
+    private handle?: number;
+    private last?: number;
+    private pending?: { point: Point2D; time: number };
+    private moves = 0;
+
+    private onFrame = this.tick.bind(this);
+
+    constructor(handlers: DragLoopHandlers) {
+        this.handlers = handlers;
+    }
+
+    public start(): void {
+        if (this.handle !== undefined) return;
+
+        this.last = undefined;
+        this.handle = requestAnimationFrame(this.onFrame);
+    }
+
+    public push(point: Point2D, time: number = performance.now()): void {
+        this.pending = { point, time };
+        this.moves++;
+    }
+
+    // Apply the pending point right away, before the drag is released
+    public flush(): void {
+        const pending = this.pending;
+        this.pending = undefined;
+        this.moves = 0;
+
+        if (pending) {
+            this.handlers.apply(pending.point, pending.time);
+        }
+    }
+
+    public stop(): void {
+        if (this.handle !== undefined) {
+            cancelAnimationFrame(this.handle);
+        }
+
+        this.handle = undefined;
+        this.pending = undefined;
+        this.moves = 0;
+    }
+
+    private tick(now: number): void {
+        const interval = this.last !== undefined ? now - this.last : 0;
+        const moves = this.moves;
+        const start = performance.now();
+
+        this.last = now;
+        this.handle = requestAnimationFrame(this.onFrame);
+        this.flush();
+
+        // The first frame has no interval to report
+        if (interval) {
+            this.handlers.frame?.({ interval, duration: performance.now() - start, moves });
+        }
+    }
+}
@@ -0,0 +1,57 @@
+import { FoldEffect } from "./fold-effect";
+import type { LeafOptions, TransitionEffect, TransitionFactory, TransitionTurn } from "./types";
+
+// The sheet fades out while its back fades in where it lands
+class FadeEffect implements TransitionEffect {
+    public start(turn: TransitionTurn): void {
+        // The back appears as the turn progresses, a blank back never does
+        turn.back.style.opacity = '0';
+    }
+
+    public update(turn: TransitionTurn, progress: number): void {
+        turn.page.style.opacity = String(1 - progress);
+
+        if (!turn.blank) {
+            const offset = turn.corner.includes('r') ? -turn.width : turn.width;
+            turn.back.style.transform = `translateX(${offset}px)`;
+            turn.back.style.opacity = String(progress);
+        }
+    }
+
+    public complete(turn: TransitionTurn): void {
+        this.reset(turn);
+    }
+
+    public cancel(turn: TransitionTurn): void {
+        this.reset(turn);
+    }
+
+    private reset(turn: TransitionTurn): void {
+        turn.page.style.opacity = '';
+        turn.back.style.opacity = '';
+        turn.back.style.transform = '';
+    }
+}
+
+const effects: Record<string, TransitionFactory> = {
+    fold: options => new FoldEffect(options),
+    fade: () => new FadeEffect()
+};
+
+// Make an effect available to books by name, replacing any effect of that name
+export function registerEffect(name: string, factory: TransitionFactory): void {
+    if (!name) {
+        throw new Error(`Invalid effect name: ${name}`);
+    }
+
+    effects[name] = factory;
+}
+
+export function createEffect(name: string, options: LeafOptions): TransitionEffect {
+    const factory = effects[name];
+    if (!factory) {
+        throw new Error(`Unknown effect: ${name}`);
+    }
+
+    return factory(options);
+}
@@ -0,0 +1,36 @@
+import type { EventHandler, EventHandlers } from "./types";
+
+// Typed CustomEvents dispatched on an element. Listeners receive the DOM
+// event, so cancelable events can be stopped with preventDefault()
+export class EventEmitter<M> {
+    public readonly element: HTMLElement;
+
+    constructor(element: HTMLElement, handlers: EventHandlers<M> = {}) {
+        this.element = element;
+
+        (Object.keys(handlers) as Array<keyof M & string>).forEach(type => {
+            const handler = handlers[type];
+            if (handler) this.on(type, handler);
+        });
+    }
+
+    public on<K extends keyof M & string>(type: K, handler: EventHandler<M, K>): this {
+        this.element.addEventListener(type, handler as EventListener);
+        return this;
+    }
+
+    public off<K extends keyof M & string>(type: K, handler: EventHandler<M, K>): this {
+        this.element.removeEventListener(type, handler as EventListener);
+        return this;
+    }
+
+    public once<K extends keyof M & string>(type: K, handler: EventHandler<M, K>): this {
+        this.element.addEventListener(type, handler as EventListener, { once: true });
+        return this;
+    }
+
+    // Returns false when a listener prevented a cancelable event
+    protected dispatchEvent<K extends keyof M & string>(type: K, detail: M[K], cancelable: boolean = false): boolean {
+        return this.element.dispatchEvent(new CustomEvent(type, { detail, cancelable }));
+    }
+}
@@ -1,6 +1,15 @@
-import { defaultFlipOptions, events, PI } from "./constants";
+import { PathAnimation } from "./animation";
+import { CROSSFADE_DURATION, defaultFlipOptions, defaultShading, easeOut, FLING_VELOCITY, PI } from "./constants";
+import { DragLoop } from "./drag-loop";
+import { EventEmitter } from "./events";
+import { PointerInput } from "./input";
+import { MotionMonitor } from "./motion";
 import {
+    type Corner,
+    type FlipEventMap,
     type FlipOptions,
+    type FrameTiming,
+    type MotionLevel,
     type Point2D,
 } from "./types";
 
@@ -11,30 +20,50 @@ interface FlipData {
     parent?: HTMLElement;
     fparent?: HTMLElement;
     shadow?: HTMLElement;
-    point?: Point2D & { corner: string };
-    effect?: {
-        handle: number;
-    };
+    point?: Point2D & { corner: Corner };
+    // Last drag position, its time and the drag velocity in px/ms
+    last?: Point2D;
+    moved?: number;
+    velocity?: Point2D;
+    // Offset from the pointer to the corner of a page grabbed mid-flight
+    grab?: Point2D;
+    effect?: PathAnimation;
     opts: FlipOptions;
 }
 
-export class FlipPage {
-    private element: HTMLElement;
+export class FlipPage extends EventEmitter<FlipEventMap> {
     private options: FlipOptions;
     private data: FlipData;
     private isTurning: boolean = false;
     private isDisabled: boolean = false;
+    private input?: PointerInput;
+    private motion: MotionMonitor;
+    private dragLoop = new DragLoop({
+        apply: (point, time) => this.applyMove(point, time),
+        frame: timing => this.handleFrame(timing)
+    });
+    private resizeObserver?: ResizeObserver;
+    // Cached element size, cleared on resize
+    private size?: { width: number; height: number };
 
     constructor(element: HTMLElement, options: Partial<FlipOptions> = {}) {
-        this.element = element;
+        super(element, options.when);
         this.options = { ...defaultFlipOptions, ...options };
         this.data = { opts: this.options };
+        this.motion = new MotionMonitor(this.options.motion ?? 'auto', (current, previous) => {
+            this.dispatchEvent('motionChanged', { previous, current });
+        });
         this.initialize();
     }
 
     private initialize(): void {
         this.setupWrapper();
         this.setupEventListeners();
+
+        if (this.options.responsive) {
+            this.resizeObserver = new ResizeObserver(() => this.resize());
+            this.resizeObserver.observe(this.element);
+        }
     }
 
     private setupWrapper(): void {
@@ -83,69 +112,113 @@ export class FlipPage {
     private setupEventListeners(): void {
         if (!this.data.fpage) return;
 
-        this.data.fpage.addEventListener(events.start, this.handleStart.bind(this));
-        document.addEventListener(events.move, this.handleMove.bind(this));
-        document.addEventListener(events.end, this.handleEnd.bind(this));
+        // Drags start on the flipping page but are measured against the element
+        this.input = new PointerInput(this.data.fpage, {
+            start: point => this.handleStart(point),
+            move: (point, e) => this.dragLoop.push(point, e.timeStamp),
+            end: () => this.handleEnd(),
+            cancel: () => this.handleEnd(true)
+        }, this.element);
     }
 
-    private handleStart(e: Event): void {
-        if (this.isDisabled || this.isTurning) return;
+    private handleStart(point: Point2D): boolean {
+        if (this.isDisabled || this.isTurning) return false;
+
+        // Measure the element once per drag
+        this.size = undefined;
+
+        // A page still settling can be caught and dragged on, or back
+        if (this.data.effect?.isRunning()) return this.grab(point, this.data.effect);
 
-        const point = this.getPoint(e as MouseEvent | TouchEvent);
         const corner = this.detectCorner(point);
+        if (!corner || !this.dispatchEvent('turning', { corner }, true)) return false;
 
-        if (corner) {
-            this.data.point = { ...point, corner };
-            this.isTurning = true;
-            this.element.dispatchEvent(new CustomEvent('flipstart', { detail: { point: this.data.point } }));
-        }
+        this.data.point = { ...point, corner };
+        this.data.last = point;
+        this.data.moved = undefined;
+        this.data.velocity = undefined;
+        this.data.grab = undefined;
+        this.isTurning = true;
+        this.motion.startMeasure();
+        this.dragLoop.start();
+        this.dispatchEvent('flipStart', { corner, point });
+
+        return true;
     }
 
-    private handleMove(e: Event): void {
-        if (!this.data.point || !this.isTurning) return;
+    private grab(point: Point2D, effect: PathAnimation): boolean {
+        const current = effect.current;
+        const start = this.data.point;
 
-        const point = this.getPoint(e as MouseEvent | TouchEvent);
-        this.updateFlip(point);
+        // The pointer has to land near the moving corner
+        if (!start || Math.hypot(point.x - current.x, point.y - current.y) > this.getSize().width / 3) return false;
+
+        effect.stop();
+        this.data.effect = undefined;
+        this.data.grab = { x: current.x - point.x, y: current.y - point.y };
+        this.data.last = current;
+        this.data.moved = undefined;
+        this.data.velocity = undefined;
+        this.isTurning = true;
+        this.motion.startMeasure();
+        this.dragLoop.start();
+        this.dispatchEvent('flipStart', { corner: start.corner, point: current });
+
+        return true;
     }
 
-    private handleEnd(): void {
+    // Pointer moves are applied once per animation frame
+    private applyMove(pointer: Point2D, now: number): void {
         if (!this.data.point || !this.isTurning) return;
 
-        this.isTurning = false;
-        this.completeFlip();
-        this.data.point = undefined;
+        const grab = this.data.grab;
+        const point = grab ? { x: pointer.x + grab.x, y: pointer.y + grab.y } : pointer;
+
+        if (this.data.last && this.data.moved !== undefined && now > this.data.moved) {
+            this.data.velocity = {
+                x: (point.x - this.data.last.x) / (now - this.data.moved),
+                y: (point.y - this.data.last.y) / (now - this.data.moved)
+            };
+        }
+
+        this.data.last = point;
+        this.data.moved = now;
+        this.updateFlip(point);
 
-        this.element.dispatchEvent(new CustomEvent('flipend'));
+        const { width } = this.getSize();
+        this.dispatchEvent('flipMove', {
+            corner: this.data.point.corner,
+            progress: width ? Math.min(1, Math.abs(point.x - this.data.point.x) / (2 * width)) : 0
+        });
     }
 
-    private getPoint(e: MouseEvent | TouchEvent): Point2D {
-        if ('touches' in e) {
-            const touch = e.touches[0];
-            if (!touch) return { x: 0, y: 0 }; // Return default if no touch found
+    private handleFrame(timing: FrameTiming): void {
+        this.motion.addFrame(timing.interval);
+        this.options.onFrame?.(timing);
+    }
 
-            const rect = this.element.getBoundingClientRect();
-            return {
-                x: touch.clientX - rect.left,
-                y: touch.clientY - rect.top
-            };
-        }
+    // A cancelled drag always snaps back
+    private handleEnd(cancelled: boolean = false): void {
+        if (!cancelled) this.dragLoop.flush();
+        this.dragLoop.stop();
 
-        const rect = this.element.getBoundingClientRect();
-        return {
-            x: e.clientX - rect.left,
-            y: e.clientY - rect.top
-        };
+        if (!this.data.point || !this.isTurning) return;
+
+        const corner = this.data.point.corner;
+        this.isTurning = false;
+        this.motion.stopMeasure();
+        this.dispatchEvent('flipEnd', { corner });
+        this.completeFlip(cancelled);
     }
 
-    private detectCorner(point: Point2D): string | null {
+    private detectCorner(point: Point2D): Corner | null {
         const { cornerSize, corners } = this.options;
-        const width = this.element.offsetWidth;
-        const height = this.element.offsetHeight;
+        const { width, height } = this.getSize();
 
         if (!cornerSize) return null;
 
         // Define allowed corners based on the corners option
-        let allowedCorners: string[];
+        let allowedCorners: Corner[];
         if (typeof corners === 'string') {
             switch (corners) {
                 case 'forward':
@@ -179,8 +252,7 @@ export class FlipPage {
     private updateFlip(point: Point2D): void {
         if (!this.data.point) return;
 
-        const width = this.element.offsetWidth;
-        const height = this.element.offsetHeight;
+        const { width, height } = this.getSize();
         const corner = this.data.point.corner;
 
         // Calculate fold angle
@@ -207,41 +279,115 @@ export class FlipPage {
             fold.x, fold.y
         ];
 
-        const transform = this.options.acceleration
+        const full = this.motion.current === 'full';
+        const transform = this.options.acceleration && full
             ? `matrix3d(${matrix.join(',')},0,0,0,0,1)`
             : `matrix(${matrix.join(',')})`;
 
         this.data.fpage.style.transform = transform;
 
-        // Update shadow if gradients are enabled
-        if (this.options.gradients && this.data.shadow) {
-            const intensity = 0.5 - Math.abs(angle) / (2 * PI);
+        // Update shadow if gradients are enabled. It falls from the edge the
+        // page turns around and deepens with the angle
+        if (this.options.gradients && full && this.data.shadow) {
+            const { shadowColor, shadowOpacity } = { ...defaultShading, ...this.options.shading };
+            const side = this.data.point?.corner.charAt(1) === 'l' ? 'left' : 'right';
+            const amount = Math.min(1, Math.abs(angle) / PI);
+
             this.data.shadow.style.background =
-                `linear-gradient(to right, 
-                    rgba(0,0,0,${0.5 - intensity}), 
-                    rgba(0,0,0,0) 100%)`;
+                `linear-gradient(to ${side}, var(--leaf-shadow-color, ${shadowColor}), transparent)`;
+            this.data.shadow.style.opacity =
+                `calc(var(--leaf-shadow-opacity, ${shadowOpacity}) * ${amount.toFixed(3)})`;
+        } else if (this.data.shadow) {
+            this.data.shadow.style.background = '';
+            this.data.shadow.style.opacity = '';
         }
     }
 
-    private completeFlip(): void {
-        if (!this.data.fpage) return;
+    // Programmatic flips always turn over
+    private completeFlip(cancelled: boolean = false, turn: boolean = false): void {
+        if (!this.data.fpage || !this.data.point) return;
 
+        const fpage = this.data.fpage;
+        const start = this.data.point;
+        const last = this.data.last ?? start;
+        const { width } = this.getSize();
         const duration = this.options.duration || 600;
+        const forward = start.corner.charAt(1) === 'r';
+
+        // Positive when the corner moves across the page
+        const speed = (forward ? -1 : 1) * (this.data.velocity?.x ?? 0);
+        const progress = Math.min(1, Math.abs(last.x - start.x) / (2 * width));
+        const complete = turn || (!cancelled && (speed > FLING_VELOCITY
+            || (speed >= -FLING_VELOCITY && progress >= (this.options.threshold ?? 0.25))));
+
+        const motion = this.motion.current;
+
+        if (motion === 'full') {
+            // Carry the corner all the way over to the opposite edge, or back to its start
+            const to = complete ? { x: start.x + (forward ? -2 : 2) * width, y: start.y } : { x: start.x, y: start.y };
+            const effect = new PathAnimation({
+                from: last,
+                to,
+                duration,
+                easing: this.options.easing ?? easeOut,
+                velocity: this.getReleaseVelocity()
+            }, point => {
+                this.data.last = point;
+                this.updateFlip(point);
+            });
+
+            this.data.effect = effect;
+            effect.finished.then(finished => {
+                // Grabbed again on the way
+                if (!finished) return;
+
+                this.data.effect = undefined;
+                this.data.point = undefined;
+                fpage.style.transform = 'none';
+                this.dispatchEvent(complete ? 'turned' : 'flipCancelled', { corner: start.corner });
+            });
+            return;
+        }
 
-        // Animate to final position
-        this.data.fpage.style.transition = `transform ${duration}ms ease-out`;
-        this.data.fpage.style.transform = 'none';
+        // Reduced motion fades the flipped page out, without motion it goes at once
+        const settle = motion === 'reduced' && complete ? Math.min(CROSSFADE_DURATION, duration) : 0;
+        this.data.point = undefined;
+
+        if (settle) {
+            fpage.style.transition = `opacity ${settle}ms ease-out`;
+            fpage.style.opacity = '0';
+        } else {
+            fpage.style.transform = 'none';
+        }
 
         setTimeout(() => {
-            if (this.data.fpage) {
-                this.data.fpage.style.transition = '';
-            }
-        }, duration);
+            fpage.style.transition = '';
+            fpage.style.opacity = '';
+            fpage.style.transform = 'none';
+
+            this.dispatchEvent(complete ? 'turned' : 'flipCancelled', { corner: start.corner });
+        }, settle);
+    }
+
+    // Velocity of the drag when the pointer let go, unless it was held still
+    private getReleaseVelocity(): Point2D | undefined {
+        if (this.data.moved === undefined || performance.now() - this.data.moved > 100) return undefined;
+
+        return this.data.velocity;
+    }
+
+    private getSize(): { width: number; height: number } {
+        if (!this.size) {
+            this.size = { width: this.element.offsetWidth, height: this.element.offsetHeight };
+        }
+
+        return this.size;
     }
 
     public resize(): void {
-        const width = this.element.offsetWidth;
-        const height = this.element.offsetHeight;
+        this.size = undefined;
+
+        const { width, height } = this.getSize();
         const size = Math.sqrt(width * width + height * height);
 
         if (this.data.wrapper) {
@@ -255,20 +401,26 @@ export class FlipPage {
         }
     }
 
-    public flip(corner: string): void {
-        if (this.isDisabled || this.isTurning) return;
+    public flip(corner: Corner): void {
+        if (this.isDisabled || this.isTurning || this.data.effect?.isRunning()) return;
 
         const point = this.getDefaultCornerPoint(corner);
-        if (!point) return;
+        if (!point || !this.dispatchEvent('turning', { corner }, true)) return;
 
         this.data.point = { ...point, corner };
-        this.isTurning = true;
-        this.updateFlip(point);
+        this.data.last = point;
+        this.data.moved = undefined;
+        this.data.velocity = undefined;
+        this.data.grab = undefined;
+        this.dispatchEvent('flipStart', { corner, point });
+
+        // Nothing holds the page, so it turns over by itself
+        this.dispatchEvent('flipEnd', { corner });
+        this.completeFlip(false, true);
     }
 
-    private getDefaultCornerPoint(corner: string): Point2D | null {
-        const width = this.element.offsetWidth;
-        const height = this.element.offsetHeight;
+    private getDefaultCornerPoint(corner: Corner): Point2D | null {
+        const { width, height } = this.getSize();
 
         switch (corner) {
             case 'tl': return { x: 0, y: 0 };
@@ -279,17 +431,25 @@ export class FlipPage {
         }
     }
 
+    // Motion used for flips, with 'auto' resolved
+    public getMotion(): MotionLevel {
+        return this.motion.current;
+    }
+
     public disable(disabled: boolean): void {
         this.isDisabled = disabled;
     }
 
     public destroy(): void {
         // Remove event listeners
-        if (this.data.fpage) {
-            this.data.fpage.removeEventListener(events.start, this.handleStart.bind(this));
-        }
-        document.removeEventListener(events.move, this.handleMove.bind(this));
-        document.removeEventListener(events.end, this.handleEnd.bind(this));
+        this.input?.destroy();
+        this.input = undefined;
+        this.resizeObserver?.disconnect();
+        this.resizeObserver = undefined;
+        this.motion.destroy();
+        this.dragLoop.stop();
+        this.data.effect?.stop();
+        this.data.effect = undefined;
 
         // Remove elements
         this.data.wrapper?.remove();
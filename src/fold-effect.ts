@@ -0,0 +1,218 @@
+import { A90, PI } from "./constants";
+import { Shading } from "./shading";
+import type { LeafOptions, Point2D, TransitionEffect, TransitionTurn } from "./types";
+import { Utils } from "./utils";
+
+interface FoldGeometry {
+    // Visible part of the front page
+    front: Point2D[];
+    // Folded part of the page, before reflection
+    flap: Point2D[];
+    // Reflection across the fold line
+    matrix: number[];
+    // Fold line through `origin`, `normal` points from the corner to the spine side
+    line?: { origin: Point2D; normal: Point2D };
+}
+
+// The default effect: the sheet folds along the line between its corner and
+// the dragged point, while rigid sheets swing around the spine
+export class FoldEffect implements TransitionEffect {
+    private options: LeafOptions;
+    private shading?: Shading;
+
+    constructor(options: LeafOptions) {
+        this.options = options;
+    }
+
+    public start(turn: TransitionTurn): void {
+        if (this.options.gradients && !this.shading) {
+            this.shading = new Shading(turn.book, this.options.shading);
+        }
+    }
+
+    public update(turn: TransitionTurn, progress: number): void {
+        if (turn.hard) {
+            this.applyHardTransform(turn);
+        } else {
+            this.applyFoldTransform(turn, progress);
+        }
+    }
+
+    public complete(turn: TransitionTurn): void {
+        this.reset(turn);
+    }
+
+    public cancel(turn: TransitionTurn): void {
+        this.reset(turn);
+    }
+
+    public destroy(): void {
+        this.shading?.destroy();
+        this.shading = undefined;
+    }
+
+    // Gradients are part of full motion only
+    private getShading(turn: TransitionTurn): Shading | undefined {
+        return turn.motion === 'full' ? this.shading : undefined;
+    }
+
+    private calculateFoldPosition(turn: TransitionTurn): FoldGeometry {
+        const { width, height, point } = turn;
+        const origin = Utils.createPoint2D(
+            turn.corner.includes('r') ? width : 0,
+            turn.corner.includes('b') ? height : 0
+        );
+
+        const dx = point.x - origin.x;
+        const dy = point.y - origin.y;
+        const distance = Math.hypot(dx, dy);
+        const page = [
+            { x: 0, y: 0 },
+            { x: width, y: 0 },
+            { x: width, y: height },
+            { x: 0, y: height }
+        ];
+
+        if (distance < 0.5) {
+            return { front: page, flap: [], matrix: [1, 0, 0, 1, 0, 0] };
+        }
+
+        // The fold line is the perpendicular bisector between the corner and the point
+        const normal = { x: dx / distance, y: dy / distance };
+        const middle = { x: (origin.x + point.x) / 2, y: (origin.y + point.y) / 2 };
+
+        return {
+            front: Utils.clipPolygon(page, middle, normal),
+            flap: Utils.clipPolygon(page, middle, { x: -normal.x, y: -normal.y }),
+            matrix: Utils.reflection(middle, normal),
+            line: { origin: middle, normal }
+        };
+    }
+
+    private applyFoldTransform(turn: TransitionTurn, progress: number): void {
+        const { page, back, width, height } = turn;
+        const geometry = this.calculateFoldPosition(turn);
+
+        // The front of the sheet keeps what is left on the spine side of the fold
+        page.style.clipPath = Utils.polygon(geometry.front);
+
+        // The back face is mirrored to face the reader, then reflected across
+        // the fold line so it lands on top of the front page
+        const [a, b, c, d, e, f] = geometry.matrix as [number, number, number, number, number, number];
+        const matrix = [-a, -b, c, d, a * width + e, b * width + f];
+        const transform = `matrix(${matrix.join(',')})`;
+
+        back.style.transformOrigin = '0 0';
+        back.style.webkitTransformOrigin = '0 0';
+        back.style.clipPath = Utils.polygon(
+            geometry.flap.map(p => ({ x: width - p.x, y: p.y }))
+        );
+
+        if (this.options.acceleration && turn.motion === 'full') {
+            back.style.transform = transform + ' translateZ(0)';
+            back.style.webkitTransform = transform + ' translateZ(0)';
+        } else {
+            back.style.transform = transform;
+            back.style.webkitTransform = transform;
+        }
+
+        this.shadeFold(turn, geometry, width, height, progress);
+    }
+
+    // Light the sheet from the fold line: a shadow on the page underneath and
+    // a highlight on the curl of the back face, which is drawn mirrored
+    private shadeFold(turn: TransitionTurn, geometry: FoldGeometry, width: number, height: number, progress: number): void {
+        const shading = this.getShading(turn);
+        const line = geometry.line;
+
+        if (!shading || !line) {
+            this.shading?.clear(turn.under);
+            this.shading?.clear(turn.back);
+            return;
+        }
+
+        const { origin, normal } = line;
+
+        if (turn.under) {
+            shading.shadeUnder(turn.under, width, height, {
+                origin,
+                direction: { x: -normal.x, y: -normal.y }
+            }, progress);
+        }
+
+        shading.shadeBack(turn.back, width, height, {
+            origin: { x: width - origin.x, y: origin.y },
+            direction: { x: normal.x, y: -normal.y }
+        }, progress);
+    }
+
+    // Rigid sheets don't curl, they swing around the spine with the corner
+    private applyHardTransform(turn: TransitionTurn): void {
+        const { page, back, width, height, point } = turn;
+
+        // The sheet opens as far as the corner is from the spine
+        const forward = turn.corner.includes('r');
+        const spineX = forward ? 0 : width;
+        const reach = forward ? point.x - spineX : spineX - point.x;
+        const angle = Math.acos(Math.max(-1, Math.min(1, reach / width)));
+
+        // The back face is turned around and laid over the front
+        const offset = forward ? width : -width;
+        let front: string;
+        let flipped: string;
+
+        if (this.options.acceleration && turn.motion === 'full' && Utils.has3DSupport()) {
+            const rotation = `perspective(${2 * Math.max(width, height)}px) rotateY(${(forward ? -angle : angle) * 180 / PI}deg)`;
+            front = rotation;
+            flipped = `${rotation} translateX(${offset}px) rotateY(180deg)`;
+
+            page.style.backfaceVisibility = 'hidden';
+            back.style.backfaceVisibility = 'hidden';
+        } else {
+            // Without 3D the sheet is squashed flat and only one face shows
+            const scale = `scaleX(${Math.cos(angle)})`;
+            front = scale;
+            flipped = `${scale} translateX(${offset}px) scaleX(-1)`;
+
+            page.style.visibility = angle <= A90 ? 'visible' : 'hidden';
+            back.style.visibility = angle > A90 ? 'visible' : 'hidden';
+        }
+
+        const origin = `${spineX}px 50%`;
+        page.style.transformOrigin = origin;
+        page.style.webkitTransformOrigin = origin;
+        page.style.transform = front;
+        page.style.webkitTransform = front;
+
+        back.style.clipPath = '';
+        back.style.transformOrigin = origin;
+        back.style.webkitTransformOrigin = origin;
+        back.style.transform = flipped;
+        back.style.webkitTransform = flipped;
+
+        // Each face darkens as it turns away from the reader
+        const shading = this.getShading(turn);
+        if (shading) {
+            shading.shadeFlat(page, Math.min(1, angle / A90));
+            shading.shadeFlat(back, Math.min(1, (PI - angle) / A90));
+        } else {
+            this.shading?.clear(page);
+            this.shading?.clear(back);
+        }
+    }
+
+    private reset(turn: TransitionTurn): void {
+        this.shading?.clear(turn.page);
+        this.shading?.clear(turn.back);
+        this.shading?.clear(turn.under);
+
+        [turn.page, turn.back].forEach(wrapper => {
+            wrapper.style.clipPath = '';
+            wrapper.style.transform = '';
+            wrapper.style.webkitTransform = '';
+            wrapper.style.transformOrigin = '';
+            wrapper.style.webkitTransformOrigin = '';
+            wrapper.style.backfaceVisibility = '';
+        });
+    }
+}
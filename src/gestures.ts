@@ -0,0 +1,108 @@
+import { defaultGestureOptions } from "./constants";
+import type { GestureOptions, Point2D } from "./types";
+
+// Side of the book a gesture turns a page from
+export type GestureSide = 'left' | 'right';
+
+export interface Gesture {
+    type: 'tap' | 'swipe';
+    side: GestureSide;
+}
+
+// Presses shorter than this in time (ms) and distance (px) are taps
+const TAP_TIME = 300;
+const TAP_DISTANCE = 10;
+
+// Moves older than this (ms) don't count towards the release speed
+const VELOCITY_WINDOW = 100;
+
+interface Sample extends Point2D {
+    time: number;
+}
+
+// Turns a press that didn't grab a page into a tap on an edge zone or a
+// horizontal swipe. Pointer events are fed in by the book
+export class GestureRecognizer {
+    private options: Required<GestureOptions>;
+    private start?: Sample;
+    private samples: Sample[] = [];
+    private width = 0;
+
+    constructor(options: GestureOptions = {}) {
+        this.options = { ...defaultGestureOptions, ...options };
+    }
+
+    public get edgeGrab(): boolean {
+        return this.options.edgeGrab;
+    }
+
+    public get edgeSize(): number {
+        return this.options.edgeSize;
+    }
+
+    // Whether taps and swipes of this pointer type are read
+    public accepts(pointerType: string): boolean {
+        return (this.options.pointerTypes as string[]).includes(pointerType);
+    }
+
+    public isTracking(): boolean {
+        return this.start !== undefined;
+    }
+
+    public begin(point: Point2D, time: number, width: number): void {
+        this.start = { ...point, time };
+        this.samples = [this.start];
+        this.width = width;
+    }
+
+    public move(point: Point2D, time: number): void {
+        if (!this.start) return;
+
+        this.samples.push({ ...point, time });
+        this.samples = this.samples.filter(sample => time - sample.time <= VELOCITY_WINDOW);
+    }
+
+    // The gesture made by the press, if any
+    public end(point: Point2D, time: number): Gesture | undefined {
+        const start = this.start;
+        if (!start) return;
+
+        this.move(point, time);
+        const first = this.samples[0];
+        const speed = first && time > first.time ? (point.x - first.x) / (time - first.time) : 0;
+        const dx = point.x - start.x;
+        const dy = point.y - start.y;
+        this.cancel();
+
+        if (Math.hypot(dx, dy) < TAP_DISTANCE) {
+            return time - start.time < TAP_TIME ? this.getTap(point) : undefined;
+        }
+
+        // Only mostly horizontal moves swipe
+        if (Math.abs(dx) <= Math.abs(dy)) return;
+
+        const { swipeDistance, swipeVelocity } = this.options;
+
+        if (Math.abs(dx) >= swipeDistance || (swipeVelocity > 0 && Math.abs(speed) >= swipeVelocity)) {
+            // Pages follow the finger, so a swipe to the left turns the right page
+            return { type: 'swipe', side: dx < 0 ? 'right' : 'left' };
+        }
+
+        return;
+    }
+
+    public cancel(): void {
+        this.start = undefined;
+        this.samples = [];
+    }
+
+    private getTap(point: Point2D): Gesture | undefined {
+        const zone = this.width * this.options.tapZone;
+        if (!zone) return;
+
+        if (point.x < zone) return { type: 'tap', side: 'left' };
+        if (point.x > this.width - zone) return { type: 'tap', side: 'right' };
+
+        return;
+    }
+}
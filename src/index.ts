@@ -1,6 +1,27 @@
+import { Bookmarks } from "./bookmarks";
 import { FlipPage } from "./flip-page";
 import { TurnPage } from "./leaf-page";
-import type { FlipOptions, LeafOptions } from "./types";
+import { PageNavigator } from "./navigator";
+import { TurnSounds } from "./sounds";
+import type {
+    BookmarkOptions,
+    FlipOptions,
+    LeafOptions,
+    NavigatorOptions,
+    SoundOptions,
+    UrlSyncOptions
+} from "./types";
+import { UrlSync } from "./url-sync";
+
+export { registerEffect } from "./effects";
+export type {
+    BookLayout,
+    BookState,
+    LeafEventMap,
+    TransitionEffect,
+    TransitionFactory,
+    TransitionTurn
+} from "./types";
 
 export function createTurnPage(element: HTMLElement, options?: Partial<LeafOptions>): TurnPage {
     return new TurnPage(element, options);
@@ -8,4 +29,21 @@ export function createTurnPage(element: HTMLElement, options?: Partial<LeafOptio
 
 export function createFlipPage(element: HTMLElement, options?: Partial<FlipOptions>): FlipPage {
     return new FlipPage(element, options);
-}
\ No newline at end of file
+}
+
+export function createNavigator(book: TurnPage, options: NavigatorOptions): PageNavigator {
+    return new PageNavigator(book, options);
+}
+
+export function createUrlSync(book: TurnPage, options?: Partial<UrlSyncOptions>): UrlSync {
+    return new UrlSync(book, options);
+}
+
+export function createBookmarks(book: TurnPage, options?: Partial<BookmarkOptions>): Bookmarks {
+    return new Bookmarks(book, options);
+}
+
+// Sounds are optional, books that don't create them never load audio
+export function createSounds(book: TurnPage | FlipPage, options?: SoundOptions): TurnSounds {
+    return new TurnSounds(book, options);
+}
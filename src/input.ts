@@ -0,0 +1,208 @@
+import { events } from "./constants";
+import type { Point2D } from "./types";
+
+export interface PinchGesture {
+    phase: 'start' | 'move' | 'end';
+    // Finger distance relative to the start of the pinch
+    scale: number;
+    // Midpoint between the fingers
+    center: Point2D;
+}
+
+export interface InputHandlers {
+    // Return true to claim the pointer for a drag, or 'track' to follow it
+    // without capturing it, so clicks still reach the page content
+    start: (point: Point2D, e: PointerEvent) => boolean | 'track';
+    move: (point: Point2D, e: PointerEvent) => void;
+    end: (point: Point2D, e: PointerEvent) => void;
+    // The drag was interrupted by the browser or by a second finger
+    cancel: () => void;
+    // Without a pinch handler secondary touches are ignored
+    pinch?: (gesture: PinchGesture) => void;
+}
+
+interface PinchData {
+    distance: number;
+    scale: number;
+    center: Point2D;
+}
+
+// Mouse, touch and pen input through Pointer Events. A single pointer drives
+// the drag at a time, and two fingers turn into a pinch.
+export class PointerInput {
+    private target: HTMLElement;
+    private reference: HTMLElement;
+    private handlers: InputHandlers;
+    private active?: number;
+    // The active pointer is followed without capture
+    private tracking = false;
+    private touches = new Map<number, Point2D>();
+    private pinch?: PinchData;
+
+    private onDown = this.handleDown.bind(this);
+    private onMove = this.handleMove.bind(this);
+    private onUp = this.handleUp.bind(this);
+    private onCancel = this.handleCancel.bind(this);
+
+    // Points are reported relative to `reference`, which defaults to the target
+    constructor(target: HTMLElement, handlers: InputHandlers, reference: HTMLElement = target) {
+        this.target = target;
+        this.reference = reference;
+        this.handlers = handlers;
+
+        // Keep the browser from scrolling or zooming while the book is dragged
+        this.target.style.touchAction = 'none';
+
+        this.target.addEventListener(events.start, this.onDown);
+        this.target.addEventListener(events.move, this.onMove);
+        this.target.addEventListener(events.end, this.onUp);
+        this.target.addEventListener(events.cancel, this.onCancel);
+    }
+
+    private getPoint(e: PointerEvent): Point2D {
+        const rect = this.reference.getBoundingClientRect();
+        return {
+            x: e.clientX - rect.left,
+            y: e.clientY - rect.top
+        };
+    }
+
+    private capture(e: PointerEvent): void {
+        try {
+            this.target.setPointerCapture(e.pointerId);
+        } catch {
+            // The pointer is already gone
+        }
+    }
+
+    private handleDown(e: PointerEvent): void {
+        if (e.pointerType === 'mouse' && e.button !== 0) return;
+
+        const point = this.getPoint(e);
+        if (e.pointerType === 'touch') {
+            this.touches.set(e.pointerId, point);
+        }
+
+        if (this.touches.size === 2 && this.handlers.pinch) {
+            // A second finger turns the gesture into a pinch
+            if (this.active !== undefined) {
+                this.active = undefined;
+                this.handlers.cancel();
+            }
+
+            this.capture(e);
+            this.startPinch();
+            return;
+        }
+
+        // An uncaptured pointer may have been released outside the target
+        if (this.active !== undefined && this.tracking) {
+            this.active = undefined;
+            this.handlers.cancel();
+        }
+
+        if (this.active !== undefined || this.pinch) return;
+
+        const claim = this.handlers.start(point, e);
+        if (claim) {
+            this.active = e.pointerId;
+            this.tracking = claim === 'track';
+            if (!this.tracking) this.capture(e);
+        }
+    }
+
+    private handleMove(e: PointerEvent): void {
+        const point = this.getPoint(e);
+        if (this.touches.has(e.pointerId)) {
+            this.touches.set(e.pointerId, point);
+        }
+
+        if (this.pinch) {
+            this.updatePinch();
+            return;
+        }
+
+        if (e.pointerId !== this.active) return;
+
+        this.handlers.move(point, e);
+    }
+
+    private handleUp(e: PointerEvent): void {
+        this.touches.delete(e.pointerId);
+
+        if (this.pinch) {
+            if (this.touches.size < 2) this.endPinch();
+            return;
+        }
+
+        if (e.pointerId !== this.active) return;
+
+        this.active = undefined;
+        this.handlers.end(this.getPoint(e), e);
+    }
+
+    private handleCancel(e: PointerEvent): void {
+        this.touches.delete(e.pointerId);
+
+        if (this.pinch) {
+            if (this.touches.size < 2) this.endPinch();
+            return;
+        }
+
+        if (e.pointerId !== this.active) return;
+
+        this.active = undefined;
+        this.handlers.cancel();
+    }
+
+    private getFingers(): [Point2D, Point2D] | undefined {
+        const [a, b] = Array.from(this.touches.values());
+        return a && b ? [a, b] : undefined;
+    }
+
+    private startPinch(): void {
+        const fingers = this.getFingers();
+        if (!fingers) return;
+
+        const [a, b] = fingers;
+        this.pinch = {
+            distance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+            scale: 1,
+            center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+        };
+
+        this.handlers.pinch?.({ phase: 'start', scale: 1, center: this.pinch.center });
+    }
+
+    private updatePinch(): void {
+        const fingers = this.getFingers();
+        if (!this.pinch || !fingers) return;
+
+        const [a, b] = fingers;
+        this.pinch.scale = Math.hypot(b.x - a.x, b.y - a.y) / this.pinch.distance;
+        this.pinch.center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+
+        this.handlers.pinch?.({ phase: 'move', scale: this.pinch.scale, center: this.pinch.center });
+    }
+
+    private endPinch(): void {
+        if (!this.pinch) return;
+
+        const { scale, center } = this.pinch;
+        this.pinch = undefined;
+
+        this.handlers.pinch?.({ phase: 'end', scale, center });
+    }
+
+    public destroy(): void {
+        this.target.removeEventListener(events.start, this.onDown);
+        this.target.removeEventListener(events.move, this.onMove);
+        this.target.removeEventListener(events.end, this.onUp);
+        this.target.removeEventListener(events.cancel, this.onCancel);
+        this.target.style.touchAction = '';
+
+        this.touches.clear();
+        this.active = undefined;
+        this.pinch = undefined;
+    }
+}
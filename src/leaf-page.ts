@@ -1,6 +1,38 @@
-import { defaultLeafOptions, displays, events } from "./constants";
-import type { LeafOptions } from "./types";
+import {
+    CROSSFADE_DURATION,
+    defaultCorners,
+    defaultLabels,
+    defaultLeafOptions,
+    displays,
+    easeOut,
+    FLING_VELOCITY,
+    rtlCorners,
+    STATE_CHANGE_DELAY
+} from "./constants";
+import type {
+    BookState,
+    Corner,
+    CornerDirection,
+    FrameTiming,
+    LeafEventMap,
+    LeafLabels,
+    LeafOptions,
+    MotionLevel,
+    Point2D,
+    TransitionEffect,
+    TransitionTurn
+} from "./types";
+import { PathAnimation } from "./animation";
+import type { Bookmarks } from "./bookmarks";
+import { DragLoop } from "./drag-loop";
+import { createEffect } from "./effects";
+import { EventEmitter } from "./events";
+import { GestureRecognizer, type GestureSide } from "./gestures";
+import { PointerInput, type PinchGesture } from "./input";
+import { MotionMonitor } from "./motion";
+import { Shading } from "./shading";
 import { Utils } from "./utils";
+import { Zoom, type ZoomPage } from "./zoom";
 
 interface PageData {
     pageObjs: Record<number, HTMLElement>;
@@ -8,14 +40,37 @@ interface PageData {
     pageWrap: Record<number, HTMLElement>;
     pagePlace: Record<number, number>;
     pageMv: number[];
+    folds: Record<number, FoldData>;
+    // Pages created by the page provider and whether their content arrived
+    pageLoad: Record<number, 'loading' | 'loaded'>;
+    // Index the providers know each page by. Inserted pages have none
+    pageSource: Record<number, number>;
     totalPages: number;
     tpage?: number;
+    // Whether the turn to tpage animates
+    tanimate?: boolean;
     page: number;
     display: 'single' | 'double';
+    direction: 'ltr' | 'rtl';
     disabled: boolean;
     done: boolean;
 }
 
+// A fold is the turn handed to the effect, plus how the book moves it
+interface FoldData extends TransitionTurn {
+    target: number;
+    // Offset of the folded page inside the book
+    left: number;
+    // Drag velocity in px/ms and time of the last move
+    velocity: Point2D;
+    moved?: number;
+    // Set once the pointer is released and the fold settles on its own
+    released?: boolean;
+    animation?: PathAnimation;
+    // Offset from the pointer to the corner of a page grabbed mid-flight
+    grab?: Point2D;
+}
+
 interface PagePosition {
     top: number;
     left: number | 'auto';
@@ -23,41 +78,124 @@ interface PagePosition {
     bottom: number | 'auto';
 }
 
+// Pages shown side by side in double display
+interface Spread {
+    pages: number[];
+    // Side of each page in reading order: 0 verso, 1 recto or FULL_SPREAD
+    sides: number[];
+    // Side left empty and covered by a blank page
+    filler?: number;
+}
+
+interface SpreadLayout {
+    // Page count the layout was made for
+    total: number;
+    spreads: Spread[];
+    // Spread of each page
+    index: Record<number, number>;
+}
+
+// Slot of fold-outs, which span both sides of a spread
+const FULL_SPREAD = 2;
+
 const pagePositions: Record<number, PagePosition> = {
     0: { top: 0, left: 0, right: 'auto', bottom: 'auto' },
-    1: { top: 0, right: 0, left: 'auto', bottom: 'auto' }
+    1: { top: 0, right: 0, left: 'auto', bottom: 'auto' },
+    [FULL_SPREAD]: { top: 0, left: 0, right: 'auto', bottom: 'auto' }
 };
 
 const PAGES_IN_DOM = 6;
 
-export class TurnPage {
-    private element: HTMLElement;
+// Events after which the state of the book is sent again
+const STATE_EVENTS = [
+    'pageChanged',
+    'displayChanged',
+    'pageAdded',
+    'pageRemoved',
+    'pageMoved',
+    'zoomIn',
+    'zoomOut',
+    'pinch',
+    'bookmarkAdded',
+    'bookmarkRemoved'
+] as const;
+
+export class TurnPage extends EventEmitter<LeafEventMap> {
     private options: LeafOptions;
     private data: PageData;
+    // Resolvers for setPage() calls waiting for the book to settle
+    private waiters: Array<() => void> = [];
+    private onKeyDown = this.handleKeyDown.bind(this);
+    private input?: PointerInput;
+    private zoomer?: Zoom;
+    private gestures?: GestureRecognizer;
+    private motion: MotionMonitor;
+    private shading?: Shading;
+    private effect: TransitionEffect;
+    private dragLoop = new DragLoop({
+        apply: (point, time) => this.applyMove(point, time),
+        frame: timing => this.handleFrame(timing)
+    });
+    private resizeObserver?: ResizeObserver;
+    // Cached book size, cleared on resize
+    private size?: { width: number; height: number };
+    // Cached spreads, cleared when pages move
+    private spreads?: SpreadLayout;
+    // Blank pages by spread
+    private fillers: Record<number, HTMLElement> = {};
+    // Page width over height kept by the responsive layout
+    private aspectRatio = 1;
+    private labels: LeafLabels;
+    // Polite live region announcing page changes
+    private liveRegion?: HTMLElement;
+    // Bookmarks included in the state of the book
+    private bookmarks?: Bookmarks;
+    private stateTimer?: ReturnType<typeof setTimeout>;
+    // End of the running crossfade
+    private fadeTimer?: ReturnType<typeof setTimeout>;
+    private onStateChange = this.scheduleStateChange.bind(this);
 
     constructor(element: HTMLElement, options: Partial<LeafOptions> = {}) {
-        this.element = element;
+        super(element, options.when);
         this.options = { ...defaultLeafOptions, ...options };
+        this.labels = { ...defaultLabels, ...this.options.labels };
+        this.motion = new MotionMonitor(this.options.motion ?? 'auto', (current, previous) => {
+            this.dispatchEvent('motionChanged', { previous, current });
+        });
+        if (this.options.gradients) {
+            this.shading = new Shading(element, this.options.shading);
+        }
+        this.effect = createEffect(this.options.effect ?? 'fold', this.options);
         this.data = {
             pageObjs: {},
             pages: {},
             pageWrap: {},
             pagePlace: {},
             pageMv: [],
+            folds: {},
+            pageLoad: {},
+            pageSource: {},
             totalPages: 0,
             page: this.options.page || 1,
             display: this.options.display || 'double',
+            direction: this.options.direction || 'ltr',
             disabled: false,
             done: false
         };
 
         this.initialize();
+        STATE_EVENTS.forEach(name => this.on(name, this.onStateChange));
     }
 
     private initialize(): void {
         Utils.getVendorPrefix();
         const has3d = Utils.has3DSupport();
 
+        // Follow the reading direction of the document unless told otherwise
+        if (!this.options.direction) {
+            this.data.direction = window.getComputedStyle(this.element).direction === 'rtl' ? 'rtl' : 'ltr';
+        }
+
         this.element.style.position = 'relative';
         this.element.style.width = `${this.options.width || this.element.offsetWidth}px`;
         this.element.style.height = `${this.options.height || this.element.offsetHeight}px`;
@@ -79,100 +217,615 @@ export class TurnPage {
             this.addPage(children[i] as HTMLElement, i + 1);
         }
 
+        this.setupAccessibility();
+
+        // Remaining pages come from the page provider on demand
+        if (this.options.pageProvider) {
+            this.data.totalPages = Math.max(this.data.totalPages, this.options.pages || 0);
+        }
+
+        for (let page = 1; page <= this.data.totalPages; page++) {
+            this.data.pageSource[page] ??= page;
+        }
+
         // Set initial page
-        this.setPage(this.options.page || 1);
+        this.jumpTo(Math.min(Math.max(this.options.page || 1, 1), Math.max(this.data.totalPages, 1)));
+        this.updatePagesPosition();
 
         this.data.done = true;
+
+        if (this.options.responsive) {
+            this.setupResponsive();
+        }
+    }
+
+    private setupResponsive(): void {
+        const container = this.element.parentElement;
+        if (!container) return;
+
+        const height = this.getSize().height;
+        this.aspectRatio = this.options.aspectRatio || (height ? this.getPageWidth() / height : 1);
+
+        this.resizeObserver = new ResizeObserver(() => this.layout());
+        this.resizeObserver.observe(container);
+        this.layout();
+    }
+
+    // Fit the book to its container, showing one page on narrow or portrait screens
+    private layout(): void {
+        const container = this.element.parentElement;
+        if (!container || !container.clientWidth) return;
+
+        const available = container.clientWidth;
+        const portrait = window.innerHeight > window.innerWidth;
+        const display = portrait || available < (this.options.breakpoint ?? 768) ? 'single' : 'double';
+        const pages = display === 'double' ? 2 : 1;
+
+        // Fill the width while keeping the whole book within the viewport
+        let width = available;
+        let height = width / pages / this.aspectRatio;
+
+        if (height > window.innerHeight) {
+            height = window.innerHeight;
+            width = height * this.aspectRatio * pages;
+        }
+
+        this.resize(Math.floor(width), Math.floor(height), display);
+    }
+
+    // Set the size of the book and optionally its display mode
+    public resize(width: number, height: number, display: 'single' | 'double' = this.data.display): void {
+        if (width === this.element.offsetWidth && height === this.element.offsetHeight
+            && display === this.data.display) return;
+
+        const previousWidth = this.getPageWidth();
+        const previousHeight = this.getSize().height;
+
+        this.zoomer?.reset(false);
+        this.element.style.width = `${width}px`;
+        this.element.style.height = `${height}px`;
+        this.size = undefined;
+
+        if (display !== this.data.display) {
+            this.changeDisplay(display, previousWidth, previousHeight);
+        } else {
+            this.resizePages(previousWidth, previousHeight);
+        }
+
+        this.scheduleStateChange();
+    }
+
+    private resizePages(previousWidth: number, previousHeight: number): void {
+        const width = this.getPageWidth();
+        const height = this.getSize().height;
+
+        Object.values(this.data.pageWrap).forEach(wrapper => {
+            wrapper.style.width = `${width}px`;
+            wrapper.style.height = `${height}px`;
+        });
+        Object.values(this.data.pageObjs).forEach(page => {
+            page.style.width = `${width}px`;
+            page.style.height = `${height}px`;
+        });
+
+        // Update page positions
+        this.updatePagesPosition();
+
+        // Scale the folds in progress to the new size
+        const scaleX = previousWidth ? width / previousWidth : 1;
+        const scaleY = previousHeight ? height / previousHeight : 1;
+
+        this.data.pageMv.forEach(page => {
+            const fold = this.data.folds[page];
+            const wrapper = this.data.pageWrap[page];
+            if (!fold || !wrapper) return;
+
+            fold.left *= scaleX;
+            fold.point = { x: fold.point.x * scaleX, y: fold.point.y * scaleY };
+
+            this.placeWrapper(wrapper, fold.left, Number(wrapper.style.zIndex));
+            this.placeWrapper(fold.back, fold.left, Number(fold.back.style.zIndex));
+            if (fold.under) {
+                this.placeWrapper(fold.under, fold.left, Number(fold.under.style.zIndex));
+            }
+
+            this.renderFold(fold);
+        });
+    }
+
+    private setupAccessibility(): void {
+        this.element.setAttribute('role', 'region');
+        this.element.setAttribute('aria-roledescription', 'book');
+        if (!this.element.hasAttribute('aria-label')) {
+            this.element.setAttribute('aria-label', this.labels.book);
+        }
+
+        const liveRegion = document.createElement('div');
+        liveRegion.className = 'turn-page-live';
+        liveRegion.setAttribute('aria-live', 'polite');
+        liveRegion.setAttribute('aria-atomic', 'true');
+
+        // Visually hidden but still read out
+        liveRegion.style.position = 'absolute';
+        liveRegion.style.width = '1px';
+        liveRegion.style.height = '1px';
+        liveRegion.style.margin = '-1px';
+        liveRegion.style.overflow = 'hidden';
+        liveRegion.style.clipPath = 'inset(50%)';
+        liveRegion.style.whiteSpace = 'nowrap';
+
+        this.liveRegion = liveRegion;
+        this.element.appendChild(liveRegion);
+    }
+
+    private announce(): void {
+        if (!this.liveRegion) return;
+
+        const pages = this.view().filter(page => page >= 1 && page <= this.data.totalPages);
+        this.liveRegion.textContent = this.labels.announce(pages, this.data.totalPages);
     }
 
     private setupEventListeners(): void {
-        this.element.addEventListener(events.start, this.handleStart.bind(this));
-        document.addEventListener(events.move, this.handleMove.bind(this));
-        document.addEventListener(events.end, this.handleEnd.bind(this));
+        this.input = new PointerInput(this.element, {
+            start: (point, e) => this.handleStart(point, e.timeStamp, e.pointerType),
+            move: (point, e) => this.handleMove(point, e),
+            end: (point, e) => this.handleEnd(point, e.timeStamp),
+            cancel: () => this.handleCancel(),
+            pinch: gesture => this.handlePinch(gesture)
+        });
+
+        if (this.options.gestures !== false) {
+            this.gestures = new GestureRecognizer(this.options.gestures);
+        }
+
+        this.zoomer = new Zoom(this.element, {
+            pages: () => this.getVisiblePages(),
+            dispatch: (name, detail) => this.dispatchEvent(name, detail)
+        }, {
+            max: this.options.maxZoom ?? 3,
+            duration: this.options.duration || 600,
+            provider: this.options.zoomPageProvider
+        });
+
+        if (this.options.keyboard) {
+            // The book needs to be focusable to receive key presses
+            if (!this.element.hasAttribute('tabindex')) {
+                this.element.tabIndex = 0;
+            }
+            this.element.addEventListener('keydown', this.onKeyDown);
+        }
+    }
+
+    private handleKeyDown(e: KeyboardEvent): void {
+        if (this.data.disabled || e.defaultPrevented || e.altKey || e.ctrlKey || e.metaKey) return;
+
+        // Leave editable content inside pages alone
+        const target = e.target as HTMLElement;
+        if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+        let turn: Promise<void>;
+
+        // Arrows point the way pages move, which is mirrored right to left
+        const rtl = this.data.direction === 'rtl';
+
+        switch (e.key) {
+            case 'ArrowRight':
+                turn = rtl ? this.previous() : this.next();
+                break;
+            case 'ArrowLeft':
+                turn = rtl ? this.next() : this.previous();
+                break;
+            case 'PageDown':
+                turn = this.next();
+                break;
+            case 'PageUp':
+                turn = this.previous();
+                break;
+            case 'Home':
+                if (!this.data.totalPages) return;
+                turn = this.setPage(1);
+                break;
+            case 'End':
+                if (!this.data.totalPages) return;
+                turn = this.setPage(this.data.totalPages);
+                break;
+            default:
+                return;
+        }
+
+        e.preventDefault();
+        turn.then(() => this.focusPage());
+    }
+
+    // Move focus into the first visible page so reading can continue from there
+    private focusPage(): void {
+        const page = this.view().find(page => this.data.pageWrap[page]);
+        const wrapper = page !== undefined ? this.data.pageWrap[page] : undefined;
+        if (!wrapper) return;
+
+        if (!wrapper.hasAttribute('tabindex')) {
+            wrapper.tabIndex = -1;
+        }
+        wrapper.focus({ preventScroll: true });
     }
 
-    private handleStart(e: Event): void {
-        if (this.data.disabled) return;
+    // Corner drags and edge grabs claim the pointer, other presses are followed as gestures
+    private handleStart(point: Point2D, time: number, pointerType: string): boolean | 'track' {
+        if (this.data.disabled) return false;
+
+        // Zoomed books pan instead of turning
+        if (this.zoomer?.isZoomed()) {
+            if (this.zoomer.tap(point) || !this.zoomer.startPan(point)) return false;
+
+            this.dragLoop.start();
+            return true;
+        }
 
-        const point = this.getEventPoint(e);
-        const corner = this.detectCorner(point);
+        if (this.grabFold(point)) {
+            this.motion.startMeasure();
+            this.dragLoop.start();
+            return true;
+        }
 
+        const grabbed = this.detectCorner(point);
+        const edge = grabbed ? null : this.detectEdge(point);
+        const corner = grabbed ?? edge;
         if (corner) {
-            this.startFlip(corner);
+            if (this.data.pageMv.length) return false;
+
+            // Grabbing a corner lifts the page next to the current spread
+            const view = this.view();
+            const target = this.isForward(corner) ? Math.max(...view) + 1 : Math.min(...view) - 1;
+            if (target < 1 || target > this.data.totalPages) return false;
+
+            // Fold-outs don't fold, their corners crossfade to the next spread
+            if (this.isFoldout(this.data.page) || this.isFoldout(target)) {
+                this.setPage(target);
+                return false;
+            }
+
+            if (!this.canTurn(target, corner)) return false;
+
+            const page = this.startFlip(corner, target);
+            if (page === undefined) return false;
+
+            // An edge grab moves the corner along with the pointer from where it was pressed
+            const fold = this.data.folds[page];
+            if (edge && fold) {
+                fold.grab = { x: fold.point.x - (point.x - fold.left), y: fold.point.y - point.y };
+            }
+
+            this.motion.startMeasure();
+            this.dragLoop.start();
+            return true;
+        }
+
+        // Pages can't be zoomed while they turn
+        if (!this.data.pageMv.length && this.zoomer?.tap(point)) return false;
+        if (!this.gestures?.accepts(pointerType)) return false;
+
+        // Anything else may still turn out to be a tap or a swipe
+        this.gestures.begin(point, time, this.getSize().width);
+        return 'track';
+    }
+
+    // Moves are applied on the next animation frame
+    private handleMove(point: Point2D, e: PointerEvent): void {
+        if (this.gestures?.isTracking()) {
+            this.gestures.move(point, e.timeStamp);
+            return;
         }
+
+        if (!this.zoomer?.isPanning() && (this.data.disabled || !this.data.pageMv.length)) return;
+
+        this.dragLoop.push(point, e.timeStamp);
     }
 
-    private handleMove(e: Event): void {
+    private applyMove(point: Point2D, time: number): void {
+        if (this.zoomer?.isPanning()) {
+            this.zoomer.pan(point);
+            return;
+        }
+
         if (this.data.disabled || !this.data.pageMv.length) return;
 
-        const point = this.getEventPoint(e);
-        this.updateFlip(point);
+        this.updateFlip(point, time);
+    }
+
+    private handleFrame(timing: FrameTiming): void {
+        this.motion.addFrame(timing.interval);
+        this.options.onFrame?.(timing);
     }
 
-    private handleEnd(): void {
+    private handleEnd(point: Point2D, time: number): void {
+        if (this.gestures?.isTracking()) {
+            const gesture = this.gestures.end(point, time);
+            if (gesture && !this.data.disabled) {
+                // A tap that turned a page doesn't count towards a double tap
+                this.zoomer?.cancelTap();
+                this.turnFrom(gesture.side);
+            }
+            return;
+        }
+
+        // The release lands where the pointer last was
+        this.dragLoop.flush();
+        this.dragLoop.stop();
+
+        if (this.zoomer?.isPanning()) {
+            this.zoomer.endPan();
+            return;
+        }
+
         if (this.data.disabled || !this.data.pageMv.length) return;
 
         this.completeFlip();
     }
 
-    private getEventPoint(e: Event): { x: number, y: number } {
-        const event = e as MouseEvent | TouchEvent;
-        const rect = this.element.getBoundingClientRect();
+    // The drag was interrupted, so the page goes back where it was
+    private handleCancel(): void {
+        this.gestures?.cancel();
+        this.dragLoop.stop();
 
-        if ('touches' in event) {
-            const touch = event.touches[0];
-            if (!touch) return { x: 0, y: 0 };
-            return {
-                x: touch.clientX - rect.left,
-                y: touch.clientY - rect.top
-            };
+        if (this.zoomer?.isPanning()) {
+            this.zoomer.endPan();
+            return;
         }
 
-        return {
-            x: (event as MouseEvent).clientX - rect.left,
-            y: (event as MouseEvent).clientY - rect.top
-        };
+        const page = this.data.pageMv[0];
+        const fold = page !== undefined ? this.data.folds[page] : undefined;
+        if (page === undefined || !fold || fold.released) return;
+
+        fold.released = true;
+        this.motion.stopMeasure();
+        this.dispatchEvent('flipEnd', { page, corner: fold.corner });
+        this.settleFold(page, fold, false);
+    }
+
+    private handlePinch(gesture: PinchGesture): void {
+        this.dispatchEvent('pinch', gesture);
+        this.zoomer?.pinch(gesture);
+    }
+
+    // Zoom into the book, keeping `origin` in place. A level of 1 fits the book again
+    public zoom(level: number, origin?: Point2D): void {
+        if (!this.zoomer) return;
+
+        // Pages can't be zoomed while they turn
+        if (this.data.pageMv.length) return;
+
+        this.zoomer.set(level, origin);
+        this.scheduleStateChange();
+    }
+
+    private getVisiblePages(): ZoomPage[] {
+        return this.view().flatMap(page => {
+            const wrapper = this.data.pageWrap[page];
+            const element = this.data.pageObjs[page];
+            const source = this.data.pageSource[page];
+
+            // Placeholders of loading pages are replaced when the page arrives, so zoom leaves them alone
+            if (this.data.pageLoad[page] === 'loading') return [];
+
+            return wrapper && element ? [{ page, source, wrapper, element }] : [];
+        });
     }
 
-    private detectCorner(point: { x: number; y: number }): string | null {
-        const width = this.element.offsetWidth;
-        const height = this.element.offsetHeight;
-        const cornerSize = 50; // Default corner size
+    private detectCorner(point: { x: number; y: number }): Corner | null {
+        const width = this.getSize().width;
+        const height = this.getSize().height;
+        const cornerSize = this.options.cornerSize ?? 50;
+        const allowed = this.getAllowedCorners();
 
         // Detect which corner was clicked
         if (point.y < cornerSize) {
-            if (point.x < cornerSize) return 'tl';
-            if (point.x > width - cornerSize) return 'tr';
+            if (point.x < cornerSize && allowed.includes('tl')) return 'tl';
+            if (point.x > width - cornerSize && allowed.includes('tr')) return 'tr';
         } else if (point.y > height - cornerSize) {
-            if (point.x < cornerSize) return 'bl';
-            if (point.x > width - cornerSize) return 'br';
+            if (point.x < cornerSize && allowed.includes('bl')) return 'bl';
+            if (point.x > width - cornerSize && allowed.includes('br')) return 'br';
         }
 
         return null;
     }
 
+    // Corner nearest to a press along the left or right edge of the book
+    private detectEdge(point: Point2D): Corner | null {
+        if (!this.gestures?.edgeGrab) return null;
+
+        const { width, height } = this.getSize();
+        const size = this.gestures.edgeSize;
+        const side = point.x < size ? 'l' : point.x > width - size ? 'r' : undefined;
+        if (!side) return null;
+
+        const corners = this.getAllowedCorners().filter(corner => corner.endsWith(side));
+        const nearest = point.y < height / 2 ? 't' : 'b';
+
+        return corners.find(corner => corner.startsWith(nearest)) ?? corners[0] ?? null;
+    }
+
+    // Turn the page on one side of the book, as pointed by a tap or swipe
+    private turnFrom(side: GestureSide): void {
+        // The right side turns forward, which is mirrored right to left
+        const forward = (side === 'right') !== (this.data.direction === 'rtl');
+        if (!this.getCorners(forward ? 'forward' : 'backward').length) return;
+
+        if (forward) {
+            this.next();
+        } else {
+            this.previous();
+        }
+    }
+
     public addPage(element: HTMLElement, page?: number): this {
         if (!element) return this;
 
-        let incPages = false;
         page = page || this.data.totalPages + 1;
+        this.wrapPage(element, page);
+        this.data.pageSource[page] ??= page;
+        this.spreads = undefined;
+
+        if (this.data.done) {
+            this.updatePagesPosition();
+            this.dispatchEvent('pageAdded', { page, element });
+        }
+
+        return this;
+    }
+
+    // Insert a page before `page`, shifting it and every later page up by one
+    public insertPage(element: HTMLElement, page: number): this {
+        if (page < 1 || page > this.data.totalPages + 1) {
+            throw new Error(`Invalid page number: ${page}`);
+        }
+
+        this.assertIdle();
+        this.reindexPages(current => current >= page ? current + 1 : current);
+        this.data.totalPages++;
+        this.wrapPage(element, page);
+
+        // Keep the reader on the same content
+        const current = this.data.page >= page ? this.data.page + 1 : this.data.page;
+        this.jumpTo(Math.min(current, this.data.totalPages));
+        this.updatePagesPosition();
+        this.dispatchEvent('pageAdded', { page, element });
+
+        return this;
+    }
+
+    public removePage(page: number): this {
+        if (page < 1 || page > this.data.totalPages) {
+            throw new Error(`Invalid page number: ${page}`);
+        }
+
+        this.assertIdle();
+
+        const element = this.getPageElement(page);
+        this.data.pageWrap[page]?.remove();
+
+        this.reindexPages(current => {
+            if (current === page) return undefined;
+            return current > page ? current - 1 : current;
+        });
+        this.data.totalPages--;
+
+        // Stay on the same content, or on what took the place of the removed page
+        const current = this.data.page > page ? this.data.page - 1 : this.data.page;
+        this.jumpTo(Math.max(1, Math.min(current, this.data.totalPages)));
+        this.updatePagesPosition();
+        this.dispatchEvent('pageRemoved', { page, element });
+
+        return this;
+    }
+
+    public movePage(from: number, to: number): this {
+        if (from < 1 || from > this.data.totalPages) {
+            throw new Error(`Invalid page number: ${from}`);
+        }
+        if (to < 1 || to > this.data.totalPages) {
+            throw new Error(`Invalid page number: ${to}`);
+        }
+        if (from === to) return this;
+
+        this.assertIdle();
+
+        const place = (page: number): number => {
+            if (page === from) return to;
+            if (from < to && page > from && page <= to) return page - 1;
+            if (from > to && page >= to && page < from) return page + 1;
+            return page;
+        };
+
+        const element = this.getPageElement(from);
+
+        this.reindexPages(place);
+        this.jumpTo(place(this.data.page));
+        this.updatePagesPosition();
+        this.dispatchEvent('pageMoved', { from, to, element });
+
+        return this;
+    }
+
+    private assertIdle(): void {
+        if (this.data.pageMv.length) {
+            throw new Error('Cannot change pages while a page is turning');
+        }
+    }
+
+    // Renumber every page slot, dropping the pages mapped to undefined
+    private reindexPages(place: (page: number) => number | undefined): void {
+        const { pageObjs, pageWrap, pageLoad, pageSource } = this.data;
+
+        this.spreads = undefined;
+        this.data.pageObjs = {};
+        this.data.pageWrap = {};
+        this.data.pagePlace = {};
+        this.data.pageLoad = {};
+        this.data.pageSource = {};
+
+        // Pages named in options follow their content
+        const remap = (pages: number[]) => pages.flatMap(page => place(page) ?? []);
+        if (this.options.foldouts) {
+            this.options.foldouts = remap(this.options.foldouts);
+        }
+
+        // Covers stay hard where they end up, so they become a list of pages
+        const { hard } = this.options;
+        const { totalPages } = this.data;
+        if (hard === 'covers') {
+            const covers = [1, 2, totalPages - 1, totalPages].filter(page => page >= 1);
+            this.options.hard = remap([...new Set(covers)]);
+        } else if (hard) {
+            this.options.hard = remap(hard);
+        }
+
+        // Unmounted lazy pages keep their source too
+        Object.keys(pageSource).map(Number).forEach(page => {
+            const target = place(page);
+            if (target !== undefined) {
+                this.data.pageSource[target] = pageSource[page]!;
+            }
+        });
+
+        Object.keys(pageWrap).map(Number).forEach(page => {
+            const target = place(page);
+            const wrapper = pageWrap[page];
+            const element = pageObjs[page];
+            if (target === undefined || !wrapper || !element) return;
+
+            this.data.pageWrap[target] = wrapper;
+            this.data.pageObjs[target] = element;
+            this.data.pagePlace[target] = target;
+
+            const state = pageLoad[page];
+            if (state) {
+                this.data.pageLoad[target] = state;
+            }
+        });
+    }
 
+    private wrapPage(element: HTMLElement, page: number): void {
         if (page > this.data.totalPages) {
             this.data.totalPages = page;
-            incPages = true;
         }
 
+        // Replace whatever was in the slot
+        this.data.pageWrap[page]?.remove();
+        delete this.data.pageLoad[page];
+
         // Create page wrapper
         const pageWrapper = document.createElement('div');
         pageWrapper.className = 'turn-page-wrapper';
+        pageWrapper.setAttribute('role', 'group');
+        pageWrapper.setAttribute('aria-roledescription', 'page');
         pageWrapper.style.position = 'absolute';
         pageWrapper.style.overflow = 'hidden';
         pageWrapper.style.width = `${this.getPageWidth()}px`;
-        pageWrapper.style.height = `${this.element.offsetHeight}px`;
+        pageWrapper.style.height = `${this.getSize().height}px`;
 
         // Add page element to wrapper
         element.style.width = `${this.getPageWidth()}px`;
-        element.style.height = `${this.element.offsetHeight}px`;
+        element.style.height = `${this.getSize().height}px`;
         pageWrapper.appendChild(element);
 
         // Store page data
@@ -182,54 +835,182 @@ export class TurnPage {
 
         // Add wrapper to DOM
         this.element.appendChild(pageWrapper);
+    }
 
-        return this;
+    // Size of the book, measured once until it is resized so drags don't force layout
+    private getSize(): { width: number; height: number } {
+        if (!this.size) {
+            this.size = { width: this.element.offsetWidth, height: this.element.offsetHeight };
+        }
+
+        return this.size;
     }
 
     private getPageWidth(): number {
-        return this.data.display === 'double'
-            ? this.element.offsetWidth / 2
-            : this.element.offsetWidth;
+        const { width } = this.getSize();
+        return this.data.display === 'double' ? width / 2 : width;
     }
 
     public setDisplay(display: 'single' | 'double'): void {
+        this.changeDisplay(display, this.getPageWidth(), this.getSize().height);
+    }
+
+    // Page size before the change lets folds in progress follow the new layout
+    private changeDisplay(display: 'single' | 'double', previousWidth: number, previousHeight: number): void {
         if (!displays.includes(display)) {
             throw new Error(`Invalid display mode: ${display}`);
         }
 
         if (this.data.display === display) return;
 
+        // Folds belong to the spread they started on, which the new display lays out differently
+        const cancelled = this.data.done && this.cancelFolds();
+
         const previousDisplay = this.data.display;
         this.data.display = display;
 
         if (this.data.done) {
-            // Resize pages
-            const width = this.getPageWidth();
-            Object.values(this.data.pageWrap).forEach(wrapper => {
-                wrapper.style.width = `${width}px`;
-            });
-            Object.values(this.data.pageObjs).forEach(page => {
-                page.style.width = `${width}px`;
-            });
-
-            // Update page positions
-            this.updatePagesPosition();
+            this.resizePages(previousWidth, previousHeight);
         }
 
         this.dispatchEvent('displayChanged', {
             previous: previousDisplay,
             current: display
         });
+
+        // A pending setPage() turns again in the new display
+        if (cancelled) {
+            this.processTurns();
+        }
+    }
+
+    // Drop the folds in progress, leaving the book on its current page
+    private cancelFolds(): boolean {
+        const pages = this.data.pageMv.filter(page => this.data.folds[page]);
+        if (!pages.length) return false;
+
+        this.dragLoop.stop();
+        this.motion.stopMeasure();
+
+        pages.forEach(page => {
+            const fold = this.data.folds[page]!;
+            this.resetFold(page);
+
+            if (!fold.released) {
+                this.dispatchEvent('flipEnd', { page, corner: fold.corner });
+            }
+            this.dispatchEvent('flipCancelled', { page, corner: fold.corner });
+        });
+        this.data.pageMv = [];
+
+        return true;
+    }
+
+    // Range of pages kept in the DOM around the current view
+    private getWindow(): [number, number] {
+        const view = this.view();
+        const first = Math.max(1, Math.min(...view) - Math.floor((PAGES_IN_DOM - view.length) / 2));
+        const last = Math.min(this.data.totalPages, first + PAGES_IN_DOM - 1);
+
+        return [first, last];
+    }
+
+    private updateWindow(): void {
+        if (!this.options.pageProvider) return;
+
+        const [first, last] = this.getWindow();
+        for (let page = first; page <= last; page++) {
+            this.mountPage(page);
+        }
+
+        // Keep every page in place while leaves are moving
+        if (this.data.pageMv.length) return;
+
+        Object.keys(this.data.pageLoad).map(Number).forEach(page => {
+            if (page < first || page > last) {
+                this.unmountPage(page);
+            }
+        });
+    }
+
+    private mountPage(page: number): void {
+        const provider = this.options.pageProvider;
+        const source = this.data.pageSource[page];
+        if (!provider || source === undefined || this.data.pageWrap[page]) return;
+
+        // Show a placeholder until the provider hands over the page
+        const placeholder = document.createElement('div');
+        placeholder.className = 'turn-page-placeholder';
+
+        this.wrapPage(placeholder, page);
+        this.data.pageWrap[page]!.style.visibility = 'hidden';
+        this.data.pageLoad[page] = 'loading';
+
+        Promise.resolve()
+            .then(() => provider(source))
+            .then(element => {
+                // Pages may have been inserted, removed or moved while loading
+                const slot = Object.keys(this.data.pageObjs).map(Number)
+                    .find(key => this.data.pageObjs[key] === placeholder);
+
+                // The page was unloaded or replaced while loading
+                if (slot === undefined) return;
+
+                element.style.width = `${this.getPageWidth()}px`;
+                element.style.height = `${this.getSize().height}px`;
+                placeholder.replaceWith(element);
+
+                this.data.pageObjs[slot] = element;
+                this.data.pageLoad[slot] = 'loaded';
+                this.dispatchEvent('pageLoaded', { page: slot, element });
+            })
+            .catch(error => {
+                console.warn(`Failed to load page ${source}`, error);
+            });
+    }
+
+    private unmountPage(page: number): void {
+        const wrapper = this.data.pageWrap[page];
+        const element = this.data.pageObjs[page];
+        const state = this.data.pageLoad[page];
+
+        wrapper?.remove();
+        delete this.data.pageWrap[page];
+        delete this.data.pageObjs[page];
+        delete this.data.pagePlace[page];
+        delete this.data.pageLoad[page];
+
+        if (element && state === 'loaded') {
+            this.dispatchEvent('pageUnloaded', { page, element });
+        }
     }
 
     private updatePagesPosition(): void {
+        // Zoom follows the spread it was made on
+        if (this.zoomer?.isZoomed()) {
+            this.zoomer.reset(false);
+        }
+
+        this.updateWindow();
+        this.updateSpine();
+
         const view = this.view();
         for (let page = 1; page <= this.data.totalPages; page++) {
             const wrapper = this.data.pageWrap[page];
             if (!wrapper) continue;
 
-            if (view.includes(page)) {
-                const index = this.data.display === 'double' ? page % 2 : 0;
+            // Off-screen pages leave the accessibility tree and tab order
+            const visible = view.includes(page);
+            wrapper.setAttribute('aria-label', this.labels.page(page, this.data.totalPages));
+            if (visible) {
+                wrapper.removeAttribute('aria-hidden');
+            } else {
+                wrapper.setAttribute('aria-hidden', 'true');
+            }
+            wrapper.inert = !visible;
+
+            if (visible) {
+                const index = this.data.display === 'double' ? this.getSlot(page) : 0;
                 const position = pagePositions[index];
 
                 // Check if position exists
@@ -238,6 +1019,14 @@ export class TurnPage {
                     continue;
                 }
 
+                // Fold-outs are as wide as the spread
+                const width = `${index === FULL_SPREAD ? 2 * this.getPageWidth() : this.getPageWidth()}px`;
+                wrapper.style.width = width;
+                const element = this.data.pageObjs[page];
+                if (element) {
+                    element.style.width = width;
+                }
+
                 wrapper.style.visibility = 'visible';
                 wrapper.style.top = `${position.top}px`;
 
@@ -265,13 +1054,249 @@ export class TurnPage {
                 wrapper.style.visibility = 'hidden';
             }
         }
+
+        this.updateFillers();
     }
 
-    public setPage(pageNumber: number): void {
-        if (pageNumber < 1 || pageNumber > this.data.totalPages) {
-            throw new Error(`Invalid page number: ${pageNumber}`);
-        }
+    // Show the blank page of the current spread and hide the others
+    private updateFillers(): void {
+        const layout = this.getSpreads();
+        const current = this.data.display === 'double' ? layout.index[this.data.page] : undefined;
 
+        Object.entries(this.fillers).forEach(([index, filler]) => {
+            if (Number(index) !== current) {
+                filler.style.visibility = 'hidden';
+            }
+        });
+
+        if (current === undefined) return;
+
+        const filler = this.getFiller(this.data.page);
+        const side = layout.spreads[current]?.filler;
+        if (!filler || side === undefined) return;
+
+        this.placeWrapper(filler, this.toSlot(side) * this.getPageWidth(), 0);
+        filler.style.zIndex = '';
+    }
+
+    public setPage(pageNumber: number, options: { animate?: boolean } = {}): Promise<void> {
+        if (pageNumber < 1 || pageNumber > this.data.totalPages) {
+            throw new Error(`Invalid page number: ${pageNumber}`);
+        }
+
+        // Calls made while a page is turning only move the target, so a
+        // burst of next() calls settles on the last requested page, animated
+        // or not as that request asked
+        this.data.tpage = pageNumber;
+        this.data.tanimate = options.animate ?? true;
+
+        const settled = new Promise<void>(resolve => this.waiters.push(resolve));
+        this.processTurns();
+
+        return settled;
+    }
+
+    public getPage(): number {
+        return this.data.page;
+    }
+
+    public getTotalPages(): number {
+        return this.data.totalPages;
+    }
+
+    // Motion used for turns, with 'auto' resolved
+    public getMotion(): MotionLevel {
+        return this.motion.current;
+    }
+
+    // Text read out for the book and its pages
+    public getLabels(): LeafLabels {
+        return { ...this.labels };
+    }
+
+    public getDisplay(): 'single' | 'double' {
+        return this.data.display;
+    }
+
+    // Pages currently on screen
+    public getView(): number[] {
+        return this.view().filter(page => page >= 1 && page <= this.data.totalPages);
+    }
+
+    // Content of a page, when it is in the DOM
+    public getPageElement(page: number): HTMLElement | undefined {
+        return this.data.pageLoad[page] === 'loading' ? undefined : this.data.pageObjs[page];
+    }
+
+    public next(): Promise<void> {
+        const view = this.view(this.data.tpage ?? this.data.page);
+        const nextPage = Math.max(...view) + 1;
+
+        if (nextPage <= this.data.totalPages) {
+            return this.setPage(nextPage);
+        }
+
+        return Promise.resolve();
+    }
+
+    public previous(): Promise<void> {
+        const view = this.view(this.data.tpage ?? this.data.page);
+        const prevPage = Math.min(...view) - 1;
+
+        if (prevPage >= 1) {
+            return this.setPage(prevPage);
+        }
+
+        return Promise.resolve();
+    }
+
+    // Snapshot of the book that can be stored as JSON and restored with setState()
+    public getState(): BookState {
+        const { hard } = this.options;
+        const state: BookState = {
+            page: this.data.page,
+            display: this.data.display,
+            totalPages: this.data.totalPages,
+            disabled: this.data.disabled,
+            layout: {
+                width: this.element.offsetWidth,
+                height: this.element.offsetHeight,
+                direction: this.data.direction,
+                cover: this.options.cover ?? false
+            }
+        };
+
+        if (hard !== undefined) {
+            state.layout.hard = Array.isArray(hard) ? [...hard] : hard;
+        }
+
+        if (this.options.foldouts) {
+            state.layout.foldouts = [...this.options.foldouts];
+        }
+
+        if (this.zoomer) {
+            state.zoom = this.zoomer.level;
+        }
+
+        if (this.bookmarks) {
+            state.bookmarks = this.bookmarks.list();
+        }
+
+        return state;
+    }
+
+    // Restore a state from getState(). Resolves once the page and zoom are in place
+    public setState(state: BookState, options: { animate?: boolean } = {}): Promise<void> {
+        this.validateState(state);
+
+        if (this.data.pageMv.length) {
+            throw new Error('Cannot restore state while a page is turning');
+        }
+
+        const { layout } = state;
+        const animate = options.animate ?? true;
+
+        this.data.disabled = state.disabled;
+        this.options.hard = layout.hard;
+        this.options.foldouts = layout.foldouts;
+        this.options.cover = layout.cover ?? this.options.cover;
+        this.data.direction = layout.direction;
+
+        // Spreads follow the restored cover and fold-outs
+        this.spreads = undefined;
+        this.updatePagesPosition();
+
+        // Responsive books size themselves to their container
+        if (!this.options.responsive) {
+            this.resize(layout.width, layout.height, state.display);
+        }
+
+        if (state.bookmarks) {
+            this.bookmarks?.restore(state.bookmarks);
+        }
+
+        this.zoomer?.reset(false);
+        this.scheduleStateChange();
+
+        return this.setPage(state.page, { animate }).then(() => {
+            if (state.zoom !== undefined && state.zoom > 1) {
+                this.zoomer?.set(state.zoom, undefined, animate);
+            }
+        });
+    }
+
+    private validateState(state: BookState): void {
+        if (!state || typeof state !== 'object' || !state.layout || typeof state.layout !== 'object') {
+            throw new Error('Invalid state: expected an object with a layout');
+        }
+
+        const { layout } = state;
+        const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+        const isSize = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+        const isPage = (value: unknown) => isCount(value) && (value as number) >= 1 && (value as number) <= this.data.totalPages;
+
+        if (!isPage(state.page)) {
+            throw new Error(`Invalid page number: ${state.page}`);
+        }
+
+        if (!displays.includes(state.display)) {
+            throw new Error(`Invalid display mode: ${state.display}`);
+        }
+
+        if (!isCount(state.totalPages)) {
+            throw new Error(`Invalid total pages: ${state.totalPages}`);
+        }
+
+        if (typeof state.disabled !== 'boolean') {
+            throw new Error(`Invalid disabled flag: ${state.disabled}`);
+        }
+
+        if (!isSize(layout.width) || !isSize(layout.height)) {
+            throw new Error(`Invalid size: ${layout.width}x${layout.height}`);
+        }
+
+        if (layout.direction !== 'ltr' && layout.direction !== 'rtl') {
+            throw new Error(`Invalid direction: ${layout.direction}`);
+        }
+
+        if (layout.hard !== undefined && layout.hard !== 'covers'
+            && !(Array.isArray(layout.hard) && layout.hard.every(page => Number.isInteger(page)))) {
+            throw new Error(`Invalid hard pages: ${JSON.stringify(layout.hard)}`);
+        }
+
+        if (layout.cover !== undefined && typeof layout.cover !== 'boolean') {
+            throw new Error(`Invalid cover flag: ${layout.cover}`);
+        }
+
+        if (layout.foldouts !== undefined
+            && !(Array.isArray(layout.foldouts) && layout.foldouts.every(page => Number.isInteger(page)))) {
+            throw new Error(`Invalid fold-out pages: ${JSON.stringify(layout.foldouts)}`);
+        }
+
+        if (state.zoom !== undefined && !(isSize(state.zoom) && state.zoom >= 1)) {
+            throw new Error(`Invalid zoom level: ${state.zoom}`);
+        }
+
+        if (state.bookmarks !== undefined
+            && !(Array.isArray(state.bookmarks) && state.bookmarks.every(bookmark => isPage(bookmark?.page)))) {
+            throw new Error(`Invalid bookmarks: ${JSON.stringify(state.bookmarks)}`);
+        }
+    }
+
+    // Bookmarks to include in the state of the book
+    public attachBookmarks(bookmarks: Bookmarks): void {
+        this.bookmarks = bookmarks;
+    }
+
+    // Send stateChanged once changes stop coming
+    private scheduleStateChange(): void {
+        clearTimeout(this.stateTimer);
+        this.stateTimer = setTimeout(() => {
+            this.dispatchEvent('stateChanged', this.getState());
+        }, STATE_CHANGE_DELAY);
+    }
+
+    private jumpTo(pageNumber: number): void {
         if (this.data.page === pageNumber) return;
 
         const previousPage = this.data.page;
@@ -282,49 +1307,201 @@ export class TurnPage {
             previous: previousPage,
             current: pageNumber
         });
+
+        if (this.data.done) {
+            this.announce();
+        }
     }
 
-    public next(): void {
-        const view = this.view();
-        const nextPage = Math.max(...view) + 1;
+    private processTurns(): void {
+        // Wait for the page in motion to settle
+        if (this.data.pageMv.length) return;
 
-        if (nextPage <= this.data.totalPages) {
-            this.setPage(nextPage);
+        const target = this.data.tpage;
+        const animate = this.data.tanimate ?? true;
+        const turning = target !== undefined && !this.view().includes(target);
+
+        // A listener can block the turn, leaving the book where it is
+        const blocked = turning && !this.canTurn(target, this.getTurnCorner(target > this.data.page));
+        if (turning && !blocked && animate && this.turnTo(target)) return;
+
+        this.data.tpage = undefined;
+        this.data.tanimate = undefined;
+        if (target !== undefined && !blocked) {
+            this.jumpTo(target);
         }
+
+        const waiters = this.waiters;
+        this.waiters = [];
+        waiters.forEach(resolve => resolve());
     }
 
-    public previous(): void {
-        const view = this.view();
-        const prevPage = Math.min(...view) - 1;
+    private turnTo(target: number): boolean {
+        const forward = target > this.data.page;
 
-        if (prevPage >= 1) {
-            this.setPage(prevPage);
+        // Return to the fitted layout before turning
+        this.zoomer?.reset(false);
+
+        // Fold-outs span both sides of the spread, so they crossfade too
+        if (this.motion.current !== 'full' || this.isFoldout(this.data.page) || this.isFoldout(target)) {
+            return this.fadeTo(target, this.getTurnCorner(forward));
         }
+
+        const spreads = this.getRiffleSpreads(target);
+
+        if (spreads.length) {
+            return this.riffleTo(target, spreads);
+        }
+
+        const page = this.startFlip(this.getTurnCorner(forward), target);
+        if (page === undefined) return false;
+
+        const fold = this.data.folds[page];
+        if (!fold) return false;
+
+        fold.released = true;
+        this.settleFold(page, fold, true, true);
+
+        return true;
     }
 
-    private view(): number[] {
-        const page = this.data.page || 1;
+    private view(page: number = this.data.page || 1): number[] {
+        const layout = this.getSpreads();
+        const spread = layout.spreads[layout.index[page] ?? -1];
 
-        if (this.data.display === 'double') {
-            return page % 2 ? [page, page + 1] : [page - 1, page];
+        if (this.data.display === 'double' && spread) {
+            return [...spread.pages];
         }
 
         return [page];
     }
 
-    private dispatchEvent(name: string, detail: any): void {
-        const event = new CustomEvent(name, { detail });
-        this.element.dispatchEvent(event);
+    // Pair pages into spreads. The cover shows alone on the right, fold-outs
+    // fill a spread of their own and the page left before one shows alone
+    private getSpreads(): SpreadLayout {
+        const total = this.data.totalPages;
+        if (this.spreads?.total === total) return this.spreads;
+
+        const spreads: Spread[] = [];
+        let verso: number | undefined;
+
+        const close = () => {
+            if (verso === undefined) return;
+
+            spreads.push({ pages: [verso], sides: [0] });
+            verso = undefined;
+        };
+
+        for (let page = 1; page <= total; page++) {
+            if (this.isFoldoutPage(page)) {
+                close();
+                spreads.push({ pages: [page], sides: [FULL_SPREAD] });
+            } else if (page === 1 && this.options.cover) {
+                spreads.push({ pages: [page], sides: [1] });
+            } else if (verso === undefined) {
+                verso = page;
+            } else {
+                spreads.push({ pages: [verso, page], sides: [0, 1] });
+                verso = undefined;
+            }
+        }
+        close();
+
+        // The first and last pages may show alone, a lone page inside the book gets a blank facing page
+        if (this.options.fillers) {
+            spreads.slice(1, -1).forEach(spread => {
+                const side = spread.sides[0];
+                if (spread.pages.length === 1 && side !== FULL_SPREAD && side !== undefined) {
+                    spread.filler = 1 - side;
+                }
+            });
+        }
+
+        const index: Record<number, number> = {};
+        spreads.forEach((spread, i) => spread.pages.forEach(page => index[page] = i));
+
+        this.spreads = { total, spreads, index };
+        return this.spreads;
+    }
+
+    private isFoldoutPage(page: number): boolean {
+        if (this.options.foldouts?.includes(page)) return true;
+
+        // Lazy pages come and go, so only the option lays them out
+        if (this.options.pageProvider) return false;
+
+        const value = this.data.pageObjs[page]?.dataset.foldout;
+        return value !== undefined && value !== 'false';
+    }
+
+    // Whether `page` is shown as a fold-out spanning the spread
+    private isFoldout(page: number): boolean {
+        return this.data.display === 'double' && this.getSide(page) === FULL_SPREAD;
+    }
+
+    // Blank page facing `page`, when its spread has one and it is on `side`
+    private getFiller(page: number, side?: number): HTMLElement | undefined {
+        const layout = this.getSpreads();
+        const index = layout.index[page];
+        const spread = index !== undefined ? layout.spreads[index] : undefined;
+        if (index === undefined || spread?.filler === undefined) return;
+        if (side !== undefined && side !== spread.filler) return;
+
+        let filler = this.fillers[index];
+        if (!filler) {
+            filler = document.createElement('div');
+            filler.className = 'turn-page-filler';
+            filler.setAttribute('aria-hidden', 'true');
+            filler.style.position = 'absolute';
+            filler.style.background = '#fff';
+            filler.style.visibility = 'hidden';
+            this.element.appendChild(filler);
+            this.fillers[index] = filler;
+        }
+
+        return filler;
+    }
+
+    // Ask listeners of the cancelable turning event whether the book may turn to `target`
+    private canTurn(target: number, corner: Corner): boolean {
+        return this.dispatchEvent('turning', { page: this.data.page, target, corner }, true);
     }
 
     public destroy(): void {
         // Remove event listeners
-        this.element.removeEventListener(events.start, this.handleStart);
-        document.removeEventListener(events.move, this.handleMove);
-        document.removeEventListener(events.end, this.handleEnd);
+        this.input?.destroy();
+        this.input = undefined;
+        this.zoomer?.destroy();
+        this.zoomer = undefined;
+        this.gestures?.cancel();
+        this.gestures = undefined;
+        this.resizeObserver?.disconnect();
+        this.resizeObserver = undefined;
+        this.motion.destroy();
+        this.dragLoop.stop();
+        this.shading?.destroy();
+        this.element.removeEventListener('keydown', this.onKeyDown);
+        STATE_EVENTS.forEach(name => this.off(name, this.onStateChange));
+        clearTimeout(this.stateTimer);
+        clearTimeout(this.fadeTimer);
+        this.bookmarks = undefined;
+
+        // Undo any fold in progress
+        this.data.pageMv.forEach(page => this.resetFold(page));
+        this.effect.destroy?.();
+
+        // Settle pending page requests
+        this.waiters.forEach(resolve => resolve());
+        this.waiters = [];
+
+        this.liveRegion?.remove();
+        this.liveRegion = undefined;
 
         // Remove page wrappers
         Object.values(this.data.pageWrap).forEach(wrapper => wrapper.remove());
+        Object.values(this.fillers).forEach(filler => filler.remove());
+        this.fillers = {};
+        this.spreads = undefined;
 
         // Clear data
         this.data = {
@@ -333,25 +1510,45 @@ export class TurnPage {
             pageWrap: {},
             pagePlace: {},
             pageMv: [],
+            folds: {},
+            pageLoad: {},
+            pageSource: {},
             totalPages: 0,
             page: 1,
             display: 'double',
+            direction: 'ltr',
             disabled: false,
             done: false
         };
     }
 
-    private startFlip(corner: string): void {
+    private startFlip(corner: Corner, target?: number): number | undefined {
         if (this.data.disabled || this.data.pageMv.length) return;
 
-        const view = this.view();
-        let page: number | undefined;
+        // Measure the book once per turn
+        this.size = undefined;
 
-        if (corner.includes('r')) {
-            page = view[0];
-        } else {
-            page = view[view.length - 1];
-        }
+        const page = this.createFold(corner, this.data.page, target, 0);
+        if (page === undefined) return;
+
+        // Add page to movement array
+        this.data.pageMv = [page];
+
+        // Dispatch event
+        this.dispatchEvent('flipStart', { page, corner, point: this.getBookPoint(page) });
+
+        return page;
+    }
+
+    // Lift the sheet turning from the spread of `from` towards `target`.
+    // Leaves stacked in one turn use increasing layers, so each one lies
+    // under the previous on the way out and over it once it lands
+    private createFold(corner: Corner, from: number, target: number | undefined, layer: number): number | undefined {
+        const view = this.view(from);
+        view.forEach(page => this.mountPage(page));
+
+        const forward = this.isForward(corner);
+        const page = forward ? view[view.length - 1] : view[0];
 
         // Early return if no valid page
         if (typeof page !== 'number') return;
@@ -360,68 +1557,190 @@ export class TurnPage {
         const wrapper = this.data.pageWrap[page];
         if (!wrapper) return;
 
-        const nextPage = corner.includes('r') ? page + 1 : page - 1;
+        target = target ?? (forward ? page + 1 : page - 1);
 
-        // Check if next page exists
-        if (nextPage < 1 || nextPage > this.data.totalPages) return;
+        // Check if target page exists and lies in the turn direction
+        if (target < 1 || target > this.data.totalPages) return;
+        if (forward ? target <= page : target >= page) return;
 
-        // Add page to movement array
-        this.data.pageMv = [page];
+        // Only a page on the outer side of a spread can turn, fold-outs never do
+        const double = this.data.display === 'double';
+        const side = this.getSide(page);
+        if (double && (side !== (forward ? 1 : 0) || this.isFoldout(target))) return;
+
+        // In double display the back of the sheet is the near page of the
+        // target spread and its far page is revealed underneath; a single
+        // page has a blank back. Empty sides show the spread's filler if any
+        const spread = this.view(target);
+        spread.forEach(page => this.mountPage(page));
+        const near = spread.find(page => this.getSide(page) !== side);
+        const far = spread.find(page => this.getSide(page) === side);
+        const left = double ? this.getSlot(page) * this.getPageWidth() : 0;
+
+        const under = double ? far : target;
+        let back = double && near !== undefined ? this.data.pageWrap[near] : undefined;
+
+        if (!back && double) {
+            back = this.getFiller(target, 1 - side);
+        }
+        const blank = !back;
+
+        if (!back) {
+            back = document.createElement('div');
+            back.className = 'turn-page-back';
+            back.style.position = 'absolute';
+            back.style.overflow = 'hidden';
+            back.style.background = '#fff';
+            this.element.appendChild(back);
+        }
+
+        const fold: FoldData = {
+            book: this.element,
+            page: wrapper,
+            back,
+            blank,
+            under: under !== undefined ? this.data.pageWrap[under] : double ? this.getFiller(target, side) : undefined,
+            corner,
+            point: this.getCornerPoint(corner),
+            hard: this.isHard(page) || (double && this.isHard(near)),
+            width: this.getPageWidth(),
+            height: this.getSize().height,
+            motion: this.motion.current,
+            target,
+            left,
+            velocity: { x: 0, y: 0 }
+        };
+
+        this.data.folds[page] = fold;
+
+        // Stack the revealed page, the front and the back face of the sheet
+        const zIndex = this.data.totalPages + 2 * PAGES_IN_DOM;
+        if (fold.under) {
+            this.placeWrapper(fold.under, left, zIndex - 2 * layer - 1);
+        }
+        this.placeWrapper(wrapper, left, zIndex - 2 * layer);
+        this.placeWrapper(fold.back, left, zIndex + 1 + layer);
+
+        // Apply initial transform
+        this.effect.start(fold);
+        this.renderFold(fold);
 
-        // Prepare wrapper for animation
-        wrapper.style.zIndex = String(this.data.totalPages);
+        return page;
+    }
+
+    private placeWrapper(wrapper: HTMLElement, left: number, zIndex: number): void {
         wrapper.style.visibility = 'visible';
+        wrapper.style.top = '0px';
+        wrapper.style.left = `${left}px`;
+        wrapper.style.right = 'auto';
+        wrapper.style.bottom = 'auto';
+        wrapper.style.width = `${this.getPageWidth()}px`;
+        wrapper.style.height = `${this.getSize().height}px`;
+        wrapper.style.zIndex = String(zIndex);
+    }
+
+    // Side of a page within its spread in reading order: 0 verso, 1 recto or FULL_SPREAD
+    private getSide(page: number): number {
+        const layout = this.getSpreads();
+        const spread = layout.spreads[layout.index[page] ?? -1];
+        const index = spread ? spread.pages.indexOf(page) : -1;
+
+        return spread?.sides[index] ?? 0;
+    }
+
+    // Left (0) or right (1) side of a page within its spread, FULL_SPREAD for fold-outs
+    private getSlot(page: number): number {
+        return this.toSlot(this.getSide(page));
+    }
+
+    private toSlot(side: number): number {
+        if (side === FULL_SPREAD) return side;
+        return this.data.direction === 'rtl' ? 1 - side : side;
+    }
+
+    // Pages turn forward from the outer edge of the last page in reading order
+    private getDirectionCorners(): Record<CornerDirection, Corner[]> {
+        return this.data.direction === 'rtl' ? rtlCorners : defaultCorners;
+    }
+
+    // Corners that turn pages in a direction. The corners option narrows them,
+    // a corner listed for the wrong direction can't turn that way
+    private getCorners(direction: 'forward' | 'backward'): Corner[] {
+        const { corners } = this.options;
+        const defaults = this.getDirectionCorners()[direction];
+        const list = corners?.all ?? corners?.[direction] ?? defaults;
+
+        return list.filter(corner => defaults.includes(corner));
+    }
 
-        // Calculate initial fold position
+    private getAllowedCorners(): Corner[] {
+        return [...this.getCorners('forward'), ...this.getCorners('backward')];
+    }
+
+    private isForward(corner: Corner): boolean {
+        return this.getDirectionCorners().forward.includes(corner);
+    }
+
+    // Corner used for programmatic turns
+    private getTurnCorner(forward: boolean): Corner {
+        const direction = forward ? 'forward' : 'backward';
+        return this.getCorners(direction)[0] ?? this.getDirectionCorners()[direction][0]!;
+    }
+
+    private getCornerPoint(corner: Corner): Point2D {
         const width = this.getPageWidth();
-        const height = this.element.offsetHeight;
-        const initialFold = this.calculateFoldPosition(corner, { x: 0, y: 0 }, width, height);
+        const height = this.getSize().height;
 
-        // Apply initial transform
-        this.applyFoldTransform(wrapper, initialFold);
+        return Utils.createPoint2D(
+            corner.includes('r') ? width : 0,
+            corner.includes('b') ? height : 0
+        );
+    }
 
-        // Dispatch event
-        this.dispatchEvent('flipStart', { page, corner });
-    }
-
-    private calculateFoldPosition(corner: string, point: { x: number; y: number }, width: number, height: number): {
-        x: number;
-        y: number;
-        angle: number;
-    } {
-        let x = 0, y = 0;
-        let angle = 0;
-
-        switch (corner) {
-            case 'tl':
-                x = point.x || 0;
-                y = point.y || 0;
-                angle = Math.atan2(y, x);
-                break;
-            case 'tr':
-                x = (point.x || width) - width;
-                y = point.y || 0;
-                angle = Math.atan2(y, x);
-                break;
-            case 'bl':
-                x = point.x || 0;
-                y = (point.y || height) - height;
-                angle = Math.atan2(y, x);
-                break;
-            case 'br':
-                x = (point.x || width) - width;
-                y = (point.y || height) - height;
-                angle = Math.atan2(y, x);
-                break;
-            default:
-                // Default case to handle all possible corner values
-                console.warn(`Unexpected corner value: ${corner}`);
-        }
+    // Folded corner of a page relative to the book
+    private getBookPoint(page: number): Point2D {
+        const fold = this.data.folds[page];
+        if (!fold) return Utils.createPoint2D(0, 0);
+
+        return Utils.createPoint2D(fold.left + fold.point.x, fold.point.y);
+    }
+
+    // The sheet stays attached to the spine, so the dragged corner can't
+    // move further than the page width from the spine corner on its edge,
+    // or further than the page diagonal from the opposite spine corner
+    private constrainPoint(corner: Corner, point: Point2D): Point2D {
+        const width = this.getPageWidth();
+        const height = this.getSize().height;
+        const origin = this.getCornerPoint(corner);
+        const spineX = corner.includes('r') ? 0 : width;
+
+        let p = point;
+        p = this.limitDistance(p, { x: spineX, y: origin.y }, width);
+        p = this.limitDistance(p, { x: spineX, y: height - origin.y }, Math.hypot(width, height));
+
+        return Utils.createPoint2D(p.x, p.y);
+    }
 
-        return { x, y, angle };
+    // Turn progress from 0 at the corner to 1 with the corner on the other side
+    private getProgress(fold: FoldData): number {
+        const origin = this.getCornerPoint(fold.corner);
+        return Math.min(1, Math.abs(fold.point.x - origin.x) / (2 * this.getPageWidth()));
     }
 
-    private updateFlip(point: { x: number; y: number }): void {
+    private limitDistance(point: Point2D, center: Point2D, radius: number): Point2D {
+        const dx = point.x - center.x;
+        const dy = point.y - center.y;
+        const distance = Math.hypot(dx, dy);
+
+        if (distance <= radius) return point;
+
+        return {
+            x: center.x + dx / distance * radius,
+            y: center.y + dy / distance * radius
+        };
+    }
+
+    private updateFlip(point: Point2D, now: number = performance.now()): void {
         if (!this.data.pageMv.length) return;
 
         const page = this.data.pageMv[0];
@@ -429,44 +1748,163 @@ export class TurnPage {
         // Type guard for page
         if (typeof page !== 'number') return;
 
-        const wrapper = this.data.pageWrap[page];
-        if (!wrapper) return;
+        const fold = this.data.folds[page];
+        if (!fold || fold.released) return;
 
-        const width = this.getPageWidth();
-        const height = this.element.offsetHeight;
-        const corner = this.detectCorner(point);
+        const local = {
+            x: point.x - fold.left + (fold.grab?.x ?? 0),
+            y: point.y + (fold.grab?.y ?? 0)
+        };
 
-        if (!corner) return;
+        if (fold.moved !== undefined && now > fold.moved) {
+            fold.velocity = {
+                x: (local.x - fold.point.x) / (now - fold.moved),
+                y: (local.y - fold.point.y) / (now - fold.moved)
+            };
+        }
 
-        const fold = this.calculateFoldPosition(corner, point, width, height);
-        this.applyFoldTransform(wrapper, fold);
+        fold.moved = now;
+        fold.point = local;
+        const progress = this.renderFold(fold);
 
         // Dispatch event
-        this.dispatchEvent('flipMove', { page, progress: Math.abs(fold.x) / width });
+        this.dispatchEvent('flipMove', { page, corner: fold.corner, progress });
+    }
+
+    private isHard(page: number | undefined): boolean {
+        if (page === undefined) return false;
+
+        const { hard } = this.options;
+        if (hard === 'covers' && (page <= 2 || page > this.data.totalPages - 2)) return true;
+        if (Array.isArray(hard) && hard.includes(page)) return true;
+
+        // Pages can also be marked with a data-hard attribute
+        const value = this.data.pageObjs[page]?.dataset.hard;
+        return value !== undefined && value !== 'false';
+    }
+
+    // Hand the fold to the effect at its current point, returning the progress
+    private renderFold(fold: FoldData): number {
+        fold.point = this.constrainPoint(fold.corner, fold.point);
+        fold.width = this.getPageWidth();
+        fold.height = this.getSize().height;
+        fold.motion = this.motion.current;
+
+        const progress = this.getProgress(fold);
+        this.effect.update(fold, progress);
+        this.updateSpine(progress);
+
+        return progress;
     }
 
-    private applyFoldTransform(wrapper: HTMLElement, fold: { x: number; y: number; angle: number }): void {
-        const rad2deg = (rad: number) => (rad * 180) / Math.PI;
+    // Gradients are part of full motion only
+    private getShading(): Shading | undefined {
+        return this.motion.current === 'full' ? this.shading : undefined;
+    }
+
+    private updateSpine(progress: number = 0): void {
+        const shading = this.getShading();
 
-        // Calculate transform origin based on fold position
-        const origin = `${fold.x}px ${fold.y}px`;
+        if (shading) {
+            shading.setSpine(this.hasSpine(), progress);
+        } else {
+            this.shading?.setSpine(false);
+        }
+    }
 
-        // Calculate rotation angle
-        const rotation = rad2deg(fold.angle);
+    // Spreads with a page or a filler on both sides show their spine
+    private hasSpine(): boolean {
+        if (this.data.display !== 'double' || this.isFoldout(this.data.page)) return false;
 
-        // Apply transforms with proper vendor prefixes
-        wrapper.style.transformOrigin = origin;
-        wrapper.style.webkitTransformOrigin = origin;
+        return this.view().length === 2 || this.getFiller(this.data.page) !== undefined;
+    }
 
-        const transform = `rotate(${rotation}deg)`;
+    private resetFold(page: number, completed: boolean = false): void {
+        const fold = this.data.folds[page];
+        if (!fold) return;
 
-        if (this.options.acceleration) {
-            wrapper.style.transform = transform + ' translateZ(0)';
-            wrapper.style.webkitTransform = transform + ' translateZ(0)';
+        delete this.data.folds[page];
+        fold.animation?.stop();
+
+        // While riffling, the page under a leaf is the next leaf, which is
+        // still turning and keeps its place and shading
+        const owned = Object.values(this.data.folds).some(other => other.page === fold.under);
+        const turn = owned ? { ...fold, under: undefined } : fold;
+
+        if (completed) {
+            this.effect.complete(turn);
         } else {
-            wrapper.style.transform = transform;
-            wrapper.style.webkitTransform = transform;
+            this.effect.cancel(turn);
         }
+
+        fold.page.style.zIndex = '';
+
+        if (fold.blank) {
+            fold.back.remove();
+        } else {
+            fold.back.style.zIndex = '';
+        }
+
+        if (turn.under) {
+            turn.under.style.zIndex = '';
+        }
+    }
+
+    // Resolves to false when the animation was stopped before the end
+    private animateFold(
+        fold: FoldData,
+        to: Point2D,
+        duration: number,
+        controls?: [Point2D, Point2D],
+        velocity?: Point2D
+    ): Promise<boolean> {
+        fold.animation?.stop();
+        fold.animation = new PathAnimation({
+            from: fold.point,
+            to,
+            duration,
+            easing: this.options.easing ?? easeOut,
+            controls,
+            velocity
+        }, point => {
+            fold.point = point;
+            this.renderFold(fold);
+        });
+
+        return fold.animation.finished;
+    }
+
+    private getTurnPath(fold: FoldData, curl: boolean): { to: Point2D; controls?: [Point2D, Point2D] } {
+        const width = this.getPageWidth();
+        const height = this.getSize().height;
+        const corner = this.getCornerPoint(fold.corner);
+
+        // The corner lands mirrored on the other side of the spine
+        const to = { x: fold.corner.includes('r') ? -width : 2 * width, y: corner.y };
+        if (!curl) return { to };
+
+        const lift = fold.corner.includes('b') ? -height / 4 : height / 4;
+
+        return {
+            to,
+            controls: [
+                { x: fold.point.x + (to.x - fold.point.x) / 4, y: fold.point.y + lift },
+                { x: to.x - (to.x - fold.point.x) / 4, y: to.y + lift }
+            ]
+        };
+    }
+
+    private shouldComplete(fold: FoldData): boolean {
+        const progress = this.getProgress(fold);
+        const threshold = this.options.threshold ?? 0.25;
+
+        // Positive when the corner moves towards the spine
+        const speed = fold.corner.includes('r') ? -fold.velocity.x : fold.velocity.x;
+
+        if (speed > FLING_VELOCITY) return true;
+        if (speed < -FLING_VELOCITY) return false;
+
+        return progress >= threshold;
     }
 
     private completeFlip(): void {
@@ -477,40 +1915,245 @@ export class TurnPage {
         // Type guard for page
         if (typeof page !== 'number') return;
 
-        const wrapper = this.data.pageWrap[page];
-        if (!wrapper) return;
+        const fold = this.data.folds[page];
+        if (!fold || fold.released) return;
+
+        fold.released = true;
+        this.motion.stopMeasure();
+        this.dispatchEvent('flipEnd', { page, corner: fold.corner });
+        this.settleFold(page, fold, this.shouldComplete(fold));
+    }
+
+    // Pages of the intermediate spreads shown while jumping to a distant page
+    private getRiffleSpreads(target: number): number[] {
+        const leaves = Math.min(this.options.riffleLeaves ?? 3, PAGES_IN_DOM);
+        const current = this.view()[0];
+        const last = this.view(target)[0];
+        const spreads: number[] = [];
+
+        for (let i = 1; i <= leaves; i++) {
+            const page = Math.round(this.data.page + (target - this.data.page) * i / (leaves + 1));
+            const first = this.view(page)[0];
+
+            if (first !== undefined && first !== current && first !== last
+                && !spreads.includes(first) && !this.isFoldout(first)) {
+                spreads.push(first);
+            }
+        }
+
+        return spreads;
+    }
+
+    // Turn a few leaves in quick succession on the way to a distant page
+    private riffleTo(target: number, spreads: number[]): boolean {
+        if (this.data.disabled || this.data.pageMv.length) return false;
+
+        this.size = undefined;
+
+        const forward = target > this.data.page;
+        const corner = this.getTurnCorner(forward);
+        const stops = [...spreads, target];
+        const leaves: number[] = [];
+        let from = this.data.page;
+
+        stops.forEach((stop, layer) => {
+            const page = this.createFold(corner, from, stop, layer);
+            if (page === undefined) return;
+
+            leaves.push(page);
+            from = stop;
+        });
+
+        const first = leaves[0];
+        if (first === undefined) return false;
+
+        this.data.pageMv = leaves;
+        this.dispatchEvent('flipStart', { page: first, corner, point: this.getBookPoint(first) });
 
         const duration = this.options.duration || 600;
+        const leafDuration = this.options.riffleDuration ?? 150;
+        const landed: HTMLElement[] = [];
 
-        // Add transition
-        wrapper.style.transition = `all ${duration}ms ease-out`;
-        wrapper.style.webkitTransition = `all ${duration}ms ease-out`;
+        const turns = leaves.map((page, i) => {
+            const fold = this.data.folds[page];
+            if (!fold) return Promise.resolve(true);
 
-        // Reset transform
-        wrapper.style.transform = 'none';
-        wrapper.style.webkitTransform = 'none';
+            fold.released = true;
+            const last = i === leaves.length - 1;
+            const { to, controls } = this.getTurnPath(fold, true);
 
-        // Update page number if needed
-        const nextPage = this.data.display === 'double'
-            ? (page % 2 === 0 ? page - 1 : page + 1)
-            : page;
+            // Leaves start half a leaf apart, so several are in the air at once
+            return new Promise<void>(resolve => setTimeout(resolve, i * leafDuration / 2))
+                .then(() => this.animateFold(fold, to, last ? duration : leafDuration, controls))
+                .then(finished => {
+                    if (!finished || last) return finished;
 
-        if (nextPage >= 1 && nextPage <= this.data.totalPages) {
-            this.setPage(nextPage);
-        }
+                    // Lay the back of the leaf flat on the other side until the turn ends
+                    const back = fold.blank ? undefined : fold.back;
+                    const zIndex = back?.style.zIndex;
 
-        // Clear movement array
-        this.data.pageMv = [];
+                    this.resetFold(page, true);
+                    this.data.pageWrap[page]!.style.visibility = 'hidden';
+
+                    if (back) {
+                        this.placeWrapper(back, fold.left ? 0 : this.getPageWidth(), Number(zIndex));
+                        landed.push(back);
+                    }
+
+                    return true;
+                });
+        });
+
+        Promise.all(turns).then(results => {
+            if (!results.every(Boolean)) return;
+
+            const previous = this.data.page;
+
+            leaves.forEach(page => this.resetFold(page, true));
+            landed.forEach(wrapper => wrapper.style.zIndex = '');
+            this.data.pageMv = [];
+            this.jumpTo(target);
+            this.dispatchEvent('turned', { page: target, previous, corner });
+            this.processTurns();
+        });
+
+        return true;
+    }
+
+    // Animate a released fold to the end of the turn or back to its corner.
+    // A curl lifts the corner along a curve, for turns that start flat
+    private settleFold(page: number, fold: FoldData, complete: boolean, curl: boolean = false): void {
+        const duration = this.options.duration || 600;
+        const corner = this.getCornerPoint(fold.corner);
 
-        // Remove transition after animation
-        setTimeout(() => {
-            if (wrapper) {
-                wrapper.style.transition = '';
-                wrapper.style.webkitTransition = '';
+        // Without full motion the page lands at once
+        if (this.motion.current !== 'full') {
+            this.resetFold(page, complete);
+
+            if (complete) {
+                this.fadeTo(fold.target, fold.corner);
+            } else {
+                this.data.pageMv = [];
+                this.updatePagesPosition();
+                this.dispatchEvent('flipCancelled', { page, corner: fold.corner });
+                this.processTurns();
             }
-        }, duration);
+            return;
+        }
 
-        // Dispatch event
-        this.dispatchEvent('flipComplete', { page });
+        // Dragged pages keep moving the way they were thrown
+        const velocity = curl ? undefined : this.getReleaseVelocity(fold);
+
+        if (complete) {
+            const { to, controls } = this.getTurnPath(fold, curl);
+
+            this.animateFold(fold, to, duration, controls, velocity).then(finished => {
+                // Grabbed again on the way
+                if (!finished) return;
+
+                const previous = this.data.page;
+
+                this.resetFold(page, true);
+                this.data.pageMv = [];
+                this.jumpTo(fold.target);
+                this.dispatchEvent('turned', { page: fold.target, previous, corner: fold.corner });
+                this.processTurns();
+            });
+        } else {
+            this.animateFold(fold, corner, duration, undefined, velocity).then(finished => {
+                if (!finished) return;
+
+                this.resetFold(page);
+                this.data.pageMv = [];
+                this.updatePagesPosition();
+                this.dispatchEvent('flipCancelled', { page, corner: fold.corner });
+                this.processTurns();
+            });
+        }
     }
-}
\ No newline at end of file
+
+    // Velocity of the corner when the pointer let go, unless it was held still
+    private getReleaseVelocity(fold: FoldData): Point2D | undefined {
+        if (fold.moved === undefined || performance.now() - fold.moved > 100) return undefined;
+
+        return fold.velocity;
+    }
+
+    // Catch a page settling from a turn so it can be dragged on, or back
+    private grabFold(point: Point2D): boolean {
+        const page = this.data.pageMv[0];
+        const fold = page !== undefined ? this.data.folds[page] : undefined;
+        if (page === undefined || this.data.pageMv.length !== 1 || !fold?.released || !fold.animation?.isRunning()) {
+            return false;
+        }
+
+        // The pointer has to land near the moving corner
+        const local = { x: point.x - fold.left, y: point.y };
+        if (Math.hypot(local.x - fold.point.x, local.y - fold.point.y) > this.getPageWidth() / 3) return false;
+
+        fold.animation.stop();
+        fold.animation = undefined;
+        fold.released = false;
+        fold.grab = { x: fold.point.x - local.x, y: fold.point.y - local.y };
+        fold.velocity = { x: 0, y: 0 };
+        fold.moved = undefined;
+
+        // The reader takes over from a pending programmatic turn
+        this.data.tpage = undefined;
+        this.data.tanimate = undefined;
+        this.dispatchEvent('flipStart', { page, corner: fold.corner, point: this.getBookPoint(page) });
+
+        return true;
+    }
+
+    // Show the target spread at once, crossfading it in unless motion is off
+    private fadeTo(target: number, corner: Corner): boolean {
+        const previous = this.data.page;
+        this.jumpTo(target);
+
+        // The fading pages count as moving, so further turns wait for them
+        const pages = this.view().filter(page => this.data.pageWrap[page]);
+        this.data.pageMv = pages;
+
+        const duration = this.motion.current === 'none'
+            ? 0
+            : Math.min(CROSSFADE_DURATION, this.options.duration || 600);
+
+        this.fadeIn(pages, duration).then(() => {
+            // Instant fades settle after the current task, when the book may be gone
+            if (!this.data.done) return;
+
+            this.data.pageMv = [];
+            this.dispatchEvent('turned', { page: target, previous, corner });
+            this.processTurns();
+        });
+
+        return true;
+    }
+
+    private fadeIn(pages: number[], duration: number): Promise<void> {
+        const wrappers = pages.flatMap(page => this.data.pageWrap[page] ?? []);
+        if (!duration) return Promise.resolve();
+
+        wrappers.forEach(wrapper => {
+            wrapper.style.transition = '';
+            wrapper.style.opacity = '0';
+        });
+
+        // Commit the hidden state so the transition runs
+        void this.element.offsetWidth;
+
+        wrappers.forEach(wrapper => {
+            wrapper.style.transition = `opacity ${duration}ms ease-out`;
+            wrapper.style.opacity = '';
+        });
+
+        return new Promise(resolve => {
+            this.fadeTimer = setTimeout(() => {
+                this.fadeTimer = undefined;
+                wrappers.forEach(wrapper => wrapper.style.transition = '');
+                resolve();
+            }, duration);
+        });
+    }
+}
@@ -0,0 +1,83 @@
+import type { MotionLevel, MotionMode } from "./types";
+
+// Drags averaging slower frames than this (ms) switch 'auto' to reduced motion
+const SLOW_FRAME = 1000 / 30;
+
+// Frames needed before a drag is judged
+const MIN_FRAMES = 10;
+
+// Resolves the motion option to the level used for rendering. 'auto' follows
+// prefers-reduced-motion live and drops to reduced motion on slow devices
+export class MotionMonitor {
+    private mode: MotionMode;
+    private onChange: (current: MotionLevel, previous: MotionLevel) => void;
+    private query?: MediaQueryList;
+    private slow = false;
+    private level: MotionLevel;
+    private frames?: { total: number; count: number };
+
+    private onQueryChange = this.update.bind(this);
+
+    constructor(mode: MotionMode, onChange: (current: MotionLevel, previous: MotionLevel) => void) {
+        this.mode = mode;
+        this.onChange = onChange;
+
+        if (mode === 'auto' && window.matchMedia) {
+            this.query = window.matchMedia('(prefers-reduced-motion: reduce)');
+            this.query.addEventListener('change', this.onQueryChange);
+        }
+
+        this.level = this.resolve();
+    }
+
+    public get current(): MotionLevel {
+        return this.level;
+    }
+
+    private resolve(): MotionLevel {
+        if (this.mode !== 'auto') return this.mode;
+
+        return this.query?.matches || this.slow ? 'reduced' : 'full';
+    }
+
+    private update(): void {
+        const previous = this.level;
+        this.level = this.resolve();
+
+        if (this.level !== previous) {
+            this.onChange(this.level, previous);
+        }
+    }
+
+    // Time the frames of a drag, only needed while motion can still drop
+    public startMeasure(): void {
+        if (this.mode !== 'auto' || this.level !== 'full') return;
+
+        this.frames = { total: 0, count: 0 };
+    }
+
+    public addFrame(interval: number): void {
+        if (!this.frames) return;
+
+        this.frames.total += interval;
+        this.frames.count++;
+    }
+
+    public stopMeasure(): void {
+        const frames = this.frames;
+        if (!frames) return;
+
+        this.frames = undefined;
+
+        if (frames.count >= MIN_FRAMES && frames.total / frames.count > SLOW_FRAME) {
+            this.slow = true;
+            this.update();
+        }
+    }
+
+    public destroy(): void {
+        this.frames = undefined;
+        this.query?.removeEventListener('change', this.onQueryChange);
+        this.query = undefined;
+    }
+}
@@ -0,0 +1,202 @@
+import { defaultNavigatorOptions } from "./constants";
+import type { TurnPage } from "./leaf-page";
+import type { LeafEventMap, NavigatorOptions } from "./types";
+
+// Filmstrip of page thumbnails that follows a book and turns to the selected page.
+// Only the thumbnails in and around the visible part of the strip are rendered.
+export class PageNavigator {
+    private book: TurnPage;
+    private options: NavigatorOptions & typeof defaultNavigatorOptions;
+    private strip: HTMLElement;
+    private track: HTMLElement;
+    private items: Record<number, HTMLElement> = {};
+
+    private onScroll = this.render.bind(this);
+    private onViewChanged = this.update.bind(this);
+    private onPagesChanged = this.refresh.bind(this);
+    private onPageLoaded = this.handlePageLoaded.bind(this);
+
+    constructor(book: TurnPage, options: NavigatorOptions) {
+        this.book = book;
+        this.options = { ...defaultNavigatorOptions, ...options };
+
+        this.strip = document.createElement('div');
+        this.strip.className = 'turn-page-navigator';
+        this.strip.setAttribute('role', 'navigation');
+        this.strip.setAttribute('aria-label', this.options.label);
+        this.strip.style.position = 'relative';
+        this.strip.style.overflowX = 'auto';
+        this.strip.style.overflowY = 'hidden';
+
+        // Sized to every thumbnail so the strip scrolls as if all were there
+        this.track = document.createElement('div');
+        this.track.style.position = 'relative';
+        this.strip.appendChild(this.track);
+        this.options.container.appendChild(this.strip);
+
+        this.strip.addEventListener('scroll', this.onScroll);
+        this.book.on('pageChanged', this.onViewChanged);
+        this.book.on('displayChanged', this.onPagesChanged);
+        this.book.on('pageAdded', this.onPagesChanged);
+        this.book.on('pageRemoved', this.onPagesChanged);
+        this.book.on('pageMoved', this.onPagesChanged);
+        this.book.on('pageLoaded', this.onPageLoaded);
+
+        this.refresh();
+    }
+
+    private getThumbSize(): { width: number; height: number } {
+        const pageWidth = this.book.element.offsetWidth / (this.book.getDisplay() === 'double' ? 2 : 1);
+        const width = this.options.thumbWidth;
+        const height = pageWidth ? Math.round(width * this.book.element.offsetHeight / pageWidth) : width;
+
+        return { width, height };
+    }
+
+    // Rebuild every thumbnail, after pages or their size changed
+    public refresh(): void {
+        Object.values(this.items).forEach(item => item.remove());
+        this.items = {};
+
+        const { width, height } = this.getThumbSize();
+        const total = this.book.getTotalPages();
+
+        this.track.style.width = `${total * (width + this.options.gap)}px`;
+        this.track.style.height = `${height}px`;
+
+        this.render();
+        this.update();
+    }
+
+    private render(): void {
+        const { width } = this.getThumbSize();
+        const step = width + this.options.gap;
+        const total = this.book.getTotalPages();
+        const first = Math.max(1, Math.floor(this.strip.scrollLeft / step) + 1 - this.options.overscan);
+        const last = Math.min(total, Math.ceil((this.strip.scrollLeft + this.strip.clientWidth) / step) + this.options.overscan);
+
+        Object.keys(this.items).map(Number).forEach(page => {
+            if (page < first || page > last) {
+                this.items[page]?.remove();
+                delete this.items[page];
+            }
+        });
+
+        const view = this.book.getView();
+        for (let page = first; page <= last; page++) {
+            if (!this.items[page]) {
+                const item = this.createItem(page);
+                this.setCurrent(item, view.includes(page));
+                this.items[page] = item;
+                this.track.appendChild(item);
+            }
+        }
+    }
+
+    private createItem(page: number): HTMLElement {
+        const { width, height } = this.getThumbSize();
+        const item = document.createElement('button');
+
+        item.type = 'button';
+        item.className = 'turn-page-thumbnail';
+        const label = this.options.pageLabel ?? this.book.getLabels().page;
+        item.setAttribute('aria-label', label(page, this.book.getTotalPages()));
+        item.style.position = 'absolute';
+        item.style.top = '0';
+        item.style.left = `${(page - 1) * (width + this.options.gap)}px`;
+        item.style.width = `${width}px`;
+        item.style.height = `${height}px`;
+        item.style.padding = '0';
+        item.style.overflow = 'hidden';
+
+        item.appendChild(this.createThumbnail(page, width, height));
+        item.addEventListener('click', () => this.book.setPage(page));
+
+        return item;
+    }
+
+    private createThumbnail(page: number, width: number, height: number): HTMLElement {
+        if (this.options.thumbnail) {
+            const img = document.createElement('img');
+            img.src = this.options.thumbnail(page);
+            img.alt = '';
+            img.loading = 'lazy';
+            img.style.width = '100%';
+            img.style.height = '100%';
+            img.style.objectFit = 'cover';
+            return img;
+        }
+
+        const element = this.book.getPageElement(page);
+        if (!element) {
+            // Lazy pages show their number until they load
+            const placeholder = document.createElement('span');
+            placeholder.className = 'turn-page-thumbnail-placeholder';
+            placeholder.textContent = String(page);
+            return placeholder;
+        }
+
+        // Scale a copy of the page down to the thumbnail
+        const clone = element.cloneNode(true) as HTMLElement;
+        clone.removeAttribute('id');
+        clone.querySelectorAll('[id]').forEach(node => node.removeAttribute('id'));
+        clone.setAttribute('aria-hidden', 'true');
+        clone.inert = true;
+        clone.style.pointerEvents = 'none';
+        clone.style.transformOrigin = '0 0';
+        clone.style.transform = `scale(${width / (element.offsetWidth || width)}, ${height / (element.offsetHeight || height)})`;
+
+        return clone;
+    }
+
+    private setCurrent(item: HTMLElement, current: boolean): void {
+        if (current) {
+            item.setAttribute('aria-current', 'page');
+            item.classList.add('turn-page-thumbnail-current');
+        } else {
+            item.removeAttribute('aria-current');
+            item.classList.remove('turn-page-thumbnail-current');
+        }
+    }
+
+    // Highlight the current spread and keep it in sight
+    private update(): void {
+        const view = this.book.getView();
+        Object.entries(this.items).forEach(([page, item]) => {
+            this.setCurrent(item, view.includes(Number(page)));
+        });
+
+        const first = view[0];
+        if (first === undefined) return;
+
+        const { width } = this.getThumbSize();
+        const step = width + this.options.gap;
+        const start = (first - 1) * step;
+        const end = start + view.length * step;
+
+        if (start < this.strip.scrollLeft || end > this.strip.scrollLeft + this.strip.clientWidth) {
+            this.strip.scrollLeft = Math.max(0, start - (this.strip.clientWidth - view.length * step) / 2);
+        }
+    }
+
+    private handlePageLoaded(e: CustomEvent<LeafEventMap['pageLoaded']>): void {
+        const { page } = e.detail;
+        const item = this.items[page];
+        if (!item || this.options.thumbnail) return;
+
+        const { width, height } = this.getThumbSize();
+        item.replaceChildren(this.createThumbnail(page, width, height));
+    }
+
+    public destroy(): void {
+        this.strip.removeEventListener('scroll', this.onScroll);
+        this.book.off('pageChanged', this.onViewChanged);
+        this.book.off('displayChanged', this.onPagesChanged);
+        this.book.off('pageAdded', this.onPagesChanged);
+        this.book.off('pageRemoved', this.onPagesChanged);
+        this.book.off('pageMoved', this.onPagesChanged);
+        this.book.off('pageLoaded', this.onPageLoaded);
+        this.strip.remove();
+        this.items = {};
+    }
+}
@@ -0,0 +1,165 @@
+import { defaultShading } from "./constants";
+import type { Point2D, ShadingOptions } from "./types";
+
+// A line across a page and the unit direction of the side being shaded
+export interface ShadeLine {
+    origin: Point2D;
+    direction: Point2D;
+}
+
+type ShadeKind = 'shadow' | 'highlight';
+
+// CSS linear-gradient across a width x height box. Stop offsets are in px
+// from `line`, measured towards its direction
+function gradientFrom(width: number, height: number, line: ShadeLine, stops: Array<[number, string]>): string {
+    const { origin, direction } = line;
+    const angle = Math.atan2(direction.x, -direction.y);
+
+    // The gradient line runs through the center and spans the box at this angle
+    const length = Math.abs(width * Math.sin(angle)) + Math.abs(height * Math.cos(angle));
+    const start = (origin.x - width / 2) * direction.x + (origin.y - height / 2) * direction.y + length / 2;
+
+    const colors = stops.map(([offset, color]) => `${color} ${(start + offset).toFixed(1)}px`);
+    return `linear-gradient(${angle.toFixed(4)}rad, ${colors.join(', ')})`;
+}
+
+// Shadows and highlights drawn over pages while they turn, plus the shadow of
+// the spine. Overlays are added to the page wrappers and removed when done
+export class Shading {
+    private element: HTMLElement;
+    private theme: Required<ShadingOptions>;
+    private overlays = new WeakMap<HTMLElement, Partial<Record<ShadeKind, HTMLElement>>>();
+    private spine?: HTMLElement;
+
+    constructor(element: HTMLElement, theme: ShadingOptions = {}) {
+        this.element = element;
+        this.theme = { ...defaultShading, ...theme };
+    }
+
+    private color(kind: ShadeKind): string {
+        return kind === 'shadow'
+            ? `var(--leaf-shadow-color, ${this.theme.shadowColor})`
+            : `var(--leaf-highlight-color, ${this.theme.highlightColor})`;
+    }
+
+    private opacity(kind: ShadeKind, intensity: number): string {
+        const value = kind === 'shadow'
+            ? `var(--leaf-shadow-opacity, ${this.theme.shadowOpacity})`
+            : `var(--leaf-highlight-opacity, ${this.theme.highlightOpacity})`;
+
+        return `calc(${value} * ${Math.max(0, Math.min(intensity, 1)).toFixed(3)})`;
+    }
+
+    private overlay(wrapper: HTMLElement, kind: ShadeKind): HTMLElement {
+        const overlays = this.overlays.get(wrapper) ?? {};
+        let overlay = overlays[kind];
+
+        if (!overlay) {
+            overlay = document.createElement('div');
+            overlay.className = `turn-page-${kind}`;
+            overlay.setAttribute('aria-hidden', 'true');
+            overlay.style.position = 'absolute';
+            overlay.style.inset = '0';
+            overlay.style.pointerEvents = 'none';
+
+            overlays[kind] = overlay;
+            this.overlays.set(wrapper, overlays);
+        }
+
+        // Stay on top of the page content
+        if (wrapper.lastElementChild !== overlay) {
+            wrapper.appendChild(overlay);
+        }
+
+        return overlay;
+    }
+
+    private paint(wrapper: HTMLElement, kind: ShadeKind, background: string, intensity: number): void {
+        const overlay = this.overlay(wrapper, kind);
+        overlay.style.background = background;
+        overlay.style.opacity = this.opacity(kind, intensity);
+    }
+
+    // Shadow cast by the lifted sheet on the page underneath, deepest along the
+    // fold and widest halfway through the turn
+    public shadeUnder(wrapper: HTMLElement, width: number, height: number, line: ShadeLine, progress: number): void {
+        const lift = Math.sin(Math.PI * Math.min(progress, 1));
+        const spread = width * (0.05 + 0.25 * lift);
+        const color = this.color('shadow');
+
+        this.paint(wrapper, 'shadow', gradientFrom(width, height, line, [
+            [0, 'transparent'],
+            [0.5, color],
+            [spread, 'transparent']
+        ]), 0.4 + 0.6 * lift);
+    }
+
+    // Light on the curl of the back face next to the fold, fading into shade
+    public shadeBack(wrapper: HTMLElement, width: number, height: number, line: ShadeLine, progress: number): void {
+        const lift = Math.sin(Math.PI * Math.min(progress, 1));
+        const band = width * (0.04 + 0.12 * lift);
+
+        this.paint(wrapper, 'highlight', gradientFrom(width, height, line, [
+            [0, this.color('highlight')],
+            [band, 'transparent']
+        ]), lift);
+
+        this.paint(wrapper, 'shadow', gradientFrom(width, height, line, [
+            [0, 'transparent'],
+            [band, 'transparent'],
+            [width, this.color('shadow')]
+        ]), 0.5 * (1 - lift));
+    }
+
+    // Even shade over a rigid sheet, from 0 facing the reader to 1 edge on
+    public shadeFlat(wrapper: HTMLElement, amount: number): void {
+        this.paint(wrapper, 'shadow', this.color('shadow'), 0.6 * amount);
+    }
+
+    public clear(wrapper: HTMLElement | undefined): void {
+        if (!wrapper) return;
+
+        const overlays = this.overlays.get(wrapper);
+        overlays?.shadow?.remove();
+        overlays?.highlight?.remove();
+        this.overlays.delete(wrapper);
+    }
+
+    // Shadow in the gutter of a double spread, lighter while a sheet is lifted
+    public setSpine(visible: boolean, progress: number = 0): void {
+        if (!visible) {
+            this.spine?.remove();
+            this.spine = undefined;
+            return;
+        }
+
+        if (!this.spine) {
+            const spine = document.createElement('div');
+            spine.className = 'turn-page-spine';
+            spine.setAttribute('aria-hidden', 'true');
+            spine.style.position = 'absolute';
+            spine.style.top = '0';
+            spine.style.bottom = '0';
+            spine.style.left = '50%';
+            spine.style.width = '8%';
+            spine.style.transform = 'translateX(-50%)';
+            spine.style.pointerEvents = 'none';
+            spine.style.zIndex = '1';
+
+            const color = this.color('shadow');
+            spine.style.background = `linear-gradient(to right, transparent, ${color} 50%, transparent)`;
+
+            this.spine = spine;
+            this.element.appendChild(spine);
+        }
+
+        const opacity = `var(--leaf-spine-opacity, ${this.theme.spineOpacity})`;
+        const lift = 1 - 0.5 * Math.sin(Math.PI * Math.min(progress, 1));
+        this.spine.style.opacity = `calc(${opacity} * ${lift.toFixed(3)})`;
+    }
+
+    public destroy(): void {
+        this.spine?.remove();
+        this.spine = undefined;
+    }
+}
@@ -0,0 +1,145 @@
+import { defaultSoundOptions } from "./constants";
+import type { EventEmitter } from "./events";
+import type { FlipEventMap, SoundOptions, SoundSource } from "./types";
+
+type SoundName = 'start' | 'turn' | 'cancel';
+
+// Turn progress per ms played at full volume, about a page in a third of a second
+const FULL_VOLUME_SPEED = 0.003;
+
+// Share of the volume kept by the slowest drags
+const MIN_VOLUME = 0.3;
+
+// Plays paper sounds along the turns of a TurnPage or FlipPage. The audio
+// context and the sounds are only loaded once the first sound plays
+export class TurnSounds {
+    private book: EventEmitter<FlipEventMap>;
+    private options: SoundOptions & typeof defaultSoundOptions;
+    private context?: AudioContext;
+    private buffers: Partial<Record<SoundName, Promise<AudioBuffer | undefined>>> = {};
+    private reducedMotion?: MediaQueryList;
+    // Turn progress per ms of the current drag
+    private speed?: number;
+    private lastMove?: { progress: number; time: number };
+
+    private onStart = this.handleStart.bind(this);
+    private onMove = this.handleMove.bind(this);
+    private onTurned = () => this.play('turn');
+    private onCancelled = () => this.play('cancel');
+
+    constructor(book: EventEmitter<FlipEventMap>, options: SoundOptions = {}) {
+        this.book = book;
+        this.options = { ...defaultSoundOptions, ...options };
+
+        if (this.options.respectReducedMotion && window.matchMedia) {
+            this.reducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)');
+        }
+
+        this.book.on('flipStart', this.onStart);
+        this.book.on('flipMove', this.onMove);
+        this.book.on('turned', this.onTurned);
+        this.book.on('flipCancelled', this.onCancelled);
+    }
+
+    public mute(muted: boolean = true): void {
+        this.options.muted = muted;
+    }
+
+    public isMuted(): boolean {
+        return this.options.muted;
+    }
+
+    public setVolume(volume: number): void {
+        this.options.volume = Math.max(0, Math.min(volume, 1));
+    }
+
+    private handleStart(): void {
+        this.speed = undefined;
+        this.lastMove = undefined;
+        this.play('start');
+    }
+
+    private handleMove(e: CustomEvent<FlipEventMap['flipMove']>): void {
+        const now = performance.now();
+        const { progress } = e.detail;
+
+        if (this.lastMove && now > this.lastMove.time) {
+            this.speed = Math.abs(progress - this.lastMove.progress) / (now - this.lastMove.time);
+        }
+
+        this.lastMove = { progress, time: now };
+    }
+
+    // Turns without a drag play at full volume
+    private getGain(): number {
+        if (this.speed === undefined) return this.options.volume;
+
+        const scale = Math.min(1, MIN_VOLUME + (1 - MIN_VOLUME) * this.speed / FULL_VOLUME_SPEED);
+        return this.options.volume * scale;
+    }
+
+    private getContext(): AudioContext | undefined {
+        if (!this.context) {
+            if (typeof AudioContext === 'undefined') return undefined;
+            this.context = new AudioContext();
+        }
+
+        return this.context;
+    }
+
+    private load(name: SoundName): Promise<AudioBuffer | undefined> {
+        const source: SoundSource | undefined = this.options[name];
+        const context = this.getContext();
+        if (!source || !context) return Promise.resolve(undefined);
+
+        if (!this.buffers[name]) {
+            this.buffers[name] = typeof source !== 'string'
+                ? Promise.resolve(source)
+                : fetch(source)
+                    .then(response => response.arrayBuffer())
+                    .then(data => context.decodeAudioData(data))
+                    .catch(error => {
+                        console.warn(`Failed to load sound: ${source}`, error);
+                        return undefined;
+                    });
+        }
+
+        return this.buffers[name]!;
+    }
+
+    private play(name: SoundName): void {
+        if (this.options.muted || this.reducedMotion?.matches || !this.options[name]) return;
+
+        const gain = this.getGain();
+        if (gain <= 0) return;
+
+        this.load(name).then(buffer => {
+            const context = this.context;
+            if (!buffer || !context || context.state === 'closed') return;
+
+            // Browsers suspend audio until the page has been interacted with
+            if (context.state === 'suspended') {
+                context.resume().catch(() => undefined);
+            }
+
+            const source = context.createBufferSource();
+            const volume = context.createGain();
+
+            source.buffer = buffer;
+            volume.gain.value = gain;
+            source.connect(volume).connect(context.destination);
+            source.start();
+        });
+    }
+
+    public destroy(): void {
+        this.book.off('flipStart', this.onStart);
+        this.book.off('flipMove', this.onMove);
+        this.book.off('turned', this.onTurned);
+        this.book.off('flipCancelled', this.onCancelled);
+
+        this.context?.close().catch(() => undefined);
+        this.context = undefined;
+        this.buffers = {};
+    }
+}
@@ -1,3 +1,5 @@
+import type { PinchGesture } from "./input";
+
 // Define the corner literals
 export type Corner = 'tl' | 'tr' | 'bl' | 'br';
 
@@ -7,6 +9,96 @@ export type CornerDirection = 'backward' | 'forward' | 'all';
 // Define corners array type
 export type CornerArray = Corner[];
 
+// Creates the content of a page on demand. Pages are asked for by the number
+// they had when the book was created, even after pages are inserted, removed or moved
+export type PageProvider = (page: number) => HTMLElement | Promise<HTMLElement>;
+
+// Maps animation progress (0 to 1) to eased progress, starting at 0 and ending at 1
+export type Easing = (t: number) => number;
+
+// How much pages animate. 'auto' follows prefers-reduced-motion
+export type MotionMode = 'full' | 'reduced' | 'none' | 'auto';
+
+// Motion used for rendering once 'auto' is resolved
+export type MotionLevel = Exclude<MotionMode, 'auto'>;
+
+// Text used for assistive technologies
+export interface LeafLabels {
+    // Accessible name of the book
+    book: string;
+
+    // Accessible name of each page
+    page: (page: number, total: number) => string;
+
+    // Announcement made when the visible pages change
+    announce: (pages: number[], total: number) => string;
+}
+
+// Colors and strengths of page shading. The --leaf-shadow-color,
+// --leaf-shadow-opacity, --leaf-highlight-color, --leaf-highlight-opacity and
+// --leaf-spine-opacity custom properties of the book override them
+export interface ShadingOptions {
+    // Shadow cast on the page underneath and the shade of the curled back
+    shadowColor?: string;
+    shadowOpacity?: number;
+
+    // Light caught by the back face along the fold
+    highlightColor?: string;
+    highlightOpacity?: number;
+
+    // Shadow along the spine between two pages
+    spineOpacity?: number;
+}
+
+// A sheet being turned, as seen by a transition effect. Sizes and points are
+// in px relative to the turning page
+export interface TransitionTurn {
+    // Book element
+    book: HTMLElement;
+
+    // Wrapper of the turning page
+    page: HTMLElement;
+
+    // Element on the back of the sheet, a blank page created for the turn when `blank` is set
+    back: HTMLElement;
+    blank: boolean;
+
+    // Page revealed under the sheet
+    under?: HTMLElement;
+
+    // Corner being turned and its position, kept within reach of the spine
+    corner: Corner;
+    point: Point2D;
+
+    // Rigid sheet that swings around the spine
+    hard: boolean;
+
+    width: number;
+    height: number;
+    motion: MotionLevel;
+}
+
+// Renders page turns. The book places the pages and moves the corner; an effect
+// styles them on every frame and undoes its styles once the turn ends
+export interface TransitionEffect {
+    start(turn: TransitionTurn): void;
+
+    // `progress` runs from 0 at the corner to 1 once the sheet lies on the other side
+    update(turn: TransitionTurn, progress: number): void;
+
+    // The sheet landed on the other side
+    complete(turn: TransitionTurn): void;
+
+    // The sheet fell back in place
+    cancel(turn: TransitionTurn): void;
+
+    // Called when the book is destroyed
+    destroy?(): void;
+}
+
+// Creates an effect for a book
+export type TransitionFactory = (options: LeafOptions) => TransitionEffect;
+
 export interface LeafOptions {
     // First page
     page?: number;
@@ -14,6 +106,9 @@ export interface LeafOptions {
     // Pages count
     pages?: number;
 
+    // Loads pages on demand, keeping only the pages around the view in the DOM
+    pageProvider?: PageProvider;
+
     // Element dimensions
     width?: number;
     height?: number;
@@ -21,22 +116,114 @@ export interface LeafOptions {
     // Enables gradients
     gradients?: boolean;
 
+    // Shadow and highlight colors used by the gradients
+    shading?: ShadingOptions;
+
+    // Name of the transition effect: 'fold', 'fade' or one added with registerEffect()
+    effect?: string;
+
     // Duration of transition in milliseconds
     duration?: number;
 
+    // Easing of turns, the page keeps the speed it is released with
+    easing?: Easing;
+
     // Enables hardware acceleration
     acceleration?: boolean;
 
+    // Full turns, a crossfade without 3D or gradients ('reduced') or an
+    // instant swap ('none'). Dragged pages still follow the pointer
+    motion?: MotionMode;
+
+    // Turns pages with the arrow, PageUp/PageDown and Home/End keys
+    keyboard?: boolean;
+
     // Display mode: 'single' or 'double'
     display?: 'single' | 'double';
 
-    // Event handlers
-    when?: Record<string, (event: Event) => void>;
+    // Fits the book to its container and switches display with its width
+    responsive?: boolean;
+
+    // Container width in px below which a responsive book shows single pages
+    breakpoint?: number;
+
+    // Page width over height kept by a responsive book, defaults to the initial size
+    aspectRatio?: number;
+
+    // Reading direction, detected from the element's CSS direction when unset
+    direction?: 'ltr' | 'rtl';
+
+    // Pages that turn as rigid boards: the covers or a list of page numbers.
+    // Pages can also be marked with a data-hard attribute
+    hard?: 'covers' | number[];
+
+    // Shows the first page alone on the right side, like a closed book
+    cover?: boolean;
+
+    // Pages spanning both sides of a double spread. Pages can also be marked
+    // with a data-foldout attribute, unless they come from a page provider
+    foldouts?: number[];
+
+    // Fills the empty side of a spread left alone before a fold-out with a blank page
+    fillers?: boolean;
 
-    // Custom corners configuration
+    // Turn progress (0 to 1) past which a released page completes the turn
+    threshold?: number;
+
+    // Leaves turned on the way to a distant page, 0 turns straight to it
+    riffleLeaves?: number;
+
+    // Duration of each intermediate leaf turn in milliseconds
+    riffleDuration?: number;
+
+    // Highest zoom level reached by zoom(), double taps and pinches
+    maxZoom?: number;
+
+    // Loads higher resolution page content shown while zoomed
+    zoomPageProvider?: PageProvider;
+
+    // Accessible names and page change announcements
+    labels?: Partial<LeafLabels>;
+
+    // Debug hook called on every frame of a drag
+    onFrame?: (timing: FrameTiming) => void;
+
+    // Event handlers registered when the book is created
+    when?: EventHandlers<LeafEventMap>;
+
+    // Custom corners configuration. Directions left out keep their default
+    // corners, `all` replaces both
     corners?: {
         [key in CornerDirection]?: CornerArray;
     };
+
+    // Size of the active zone of each corner in px
+    cornerSize?: number;
+
+    // Tap, swipe and edge grab gestures, false turns pages from the corners only
+    gestures?: GestureOptions | false;
+}
+
+export interface GestureOptions {
+    // Width of the zones along the left and right edges that turn on tap, as
+    // a fraction of the book width. 0 disables taps
+    tapZone?: number;
+
+    // Horizontal distance in px that makes a swipe
+    swipeDistance?: number;
+
+    // Horizontal speed in px/ms that makes a swipe, however short. 0 disables it
+    swipeVelocity?: number;
+
+    // Pressing along the outer edge of a page lifts it from the nearest corner
+    edgeGrab?: boolean;
+
+    // Width of the grabbable edge in px
+    edgeSize?: number;
+
+    // Pointers whose taps and swipes turn pages. Mouse presses are left to
+    // links and text selection inside pages unless added here
+    pointerTypes?: Array<'mouse' | 'touch' | 'pen'>;
 }
 
 export interface FlipOptions {
@@ -52,11 +239,32 @@ export interface FlipOptions {
     // Enables gradients
     gradients?: boolean;
 
+    // Shadow colors used by the gradients
+    shading?: ShadingOptions;
+
     // Duration of transition in milliseconds
     duration?: number;
 
+    // Easing of flips, the page keeps the speed it is released with
+    easing?: Easing;
+
     // Enables hardware acceleration
     acceleration?: boolean;
+
+    // Full flips, a fade without 3D or gradients ('reduced') or an instant swap ('none')
+    motion?: MotionMode;
+
+    // Flip progress (0 to 1) past which a released page completes the flip
+    threshold?: number;
+
+    // Resizes automatically when the element changes size
+    responsive?: boolean;
+
+    // Debug hook called on every frame of a drag
+    onFrame?: (timing: FrameTiming) => void;
+
+    // Event handlers registered when the page is created
+    when?: EventHandlers<FlipEventMap>;
 }
 
 export interface Point2D {
@@ -64,3 +272,159 @@ export interface Point2D {
     y: number;
 }
 
+// Event details by event name. Events marked cancelable can be stopped with preventDefault()
+export interface FlipEventMap {
+    // A corner was grabbed, or a turn started on its own
+    flipStart: { corner: Corner; point: Point2D };
+    flipMove: { corner: Corner; progress: number };
+    // The grabbed corner was released
+    flipEnd: { corner: Corner };
+    // Cancelable, sent before a turn starts
+    turning: { corner: Corner };
+    turned: { corner: Corner };
+    flipCancelled: { corner: Corner };
+    motionChanged: { previous: MotionLevel; current: MotionLevel };
+}
+
+// Events of a book. Page numbers refer to the folded page unless noted
+export interface LeafEventMap extends FlipEventMap {
+    flipStart: { page: number; corner: Corner; point: Point2D };
+    flipMove: { page: number; corner: Corner; progress: number };
+    flipEnd: { page: number; corner: Corner };
+    // `page` is the current page and `target` the page being turned to
+    turning: { page: number; target: number; corner: Corner };
+    // `page` is the new current page
+    turned: { page: number; previous: number; corner: Corner };
+    flipCancelled: { page: number; corner: Corner };
+    pageChanged: { previous: number; current: number };
+    displayChanged: { previous: 'single' | 'double'; current: 'single' | 'double' };
+    pageAdded: { page: number; element: HTMLElement };
+    // Lazy pages have no element until they are loaded
+    pageRemoved: { page: number; element?: HTMLElement };
+    pageMoved: { from: number; to: number; element?: HTMLElement };
+    pageLoaded: { page: number; element: HTMLElement };
+    pageUnloaded: { page: number; element: HTMLElement };
+    pinch: PinchGesture;
+    zoomIn: { level: number };
+    zoomOut: { level: number };
+    bookmarkAdded: { bookmark: Bookmark; bookmarks: Bookmark[] };
+    bookmarkRemoved: { bookmark: Bookmark; bookmarks: Bookmark[] };
+    // Sent once the book stays unchanged for a moment
+    stateChanged: BookState;
+}
+
+export type EventHandler<M, K extends keyof M> = (event: CustomEvent<M[K]>) => void;
+
+export type EventHandlers<M> = {
+    [K in keyof M]?: EventHandler<M, K>;
+};
+
+// Timing of a frame of the drag loop, reported to the onFrame debug hook
+export interface FrameTiming {
+    // Time since the previous frame in ms
+    interval: number;
+
+    // Time spent on geometry and style updates in ms
+    duration: number;
+
+    // Pointer moves coalesced into the frame
+    moves: number;
+}
+
+export interface NavigatorOptions {
+    // Element the thumbnail strip is rendered into
+    container: HTMLElement;
+
+    // Thumbnail image URL for a page, page content is cloned when unset
+    thumbnail?: (page: number) => string;
+
+    // Thumbnail width in px, the height follows the page aspect ratio
+    thumbWidth?: number;
+
+    // Space between thumbnails in px
+    gap?: number;
+
+    // Thumbnails rendered beyond each edge of the visible strip
+    overscan?: number;
+
+    // Accessible name of the strip
+    label?: string;
+
+    // Accessible name of each thumbnail, the book's page label by default
+    pageLabel?: (page: number, total: number) => string;
+}
+
+export interface UrlSyncOptions {
+    // Keep the page in the hash (#page=3) or the query string (?page=3)
+    mode?: 'hash' | 'query';
+
+    // Name of the URL parameter
+    param?: string;
+
+    // Add a history entry for each page change or replace the current one
+    history?: 'push' | 'replace';
+}
+
+// Options that shape the book, restored along with its state
+export interface BookLayout {
+    width: number;
+    height: number;
+    direction: 'ltr' | 'rtl';
+    hard?: 'covers' | number[];
+    cover?: boolean;
+    foldouts?: number[];
+}
+
+// Plain JSON snapshot of a book, see getState() and setState()
+export interface BookState {
+    page: number;
+    display: 'single' | 'double';
+    totalPages: number;
+    disabled: boolean;
+    layout: BookLayout;
+
+    // Zoom level, when the book can zoom
+    zoom?: number;
+
+    // Bookmarks, when the book has any attached
+    bookmarks?: Bookmark[];
+}
+
+export interface Bookmark {
+    page: number;
+    label?: string;
+}
+
+// Anything with the getItem/setItem half of the Web Storage API
+export type BookmarkStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export interface BookmarkOptions {
+    // Storage key, use one per book
+    key?: string;
+
+    // Where bookmarks are kept, localStorage by default
+    storage?: BookmarkStorage;
+}
+
+// Audio URL or an already decoded buffer
+export type SoundSource = string | AudioBuffer;
+
+export interface SoundOptions {
+    // Played when a corner is grabbed
+    start?: SoundSource;
+
+    // Played when a page finishes turning
+    turn?: SoundSource;
+
+    // Played when a released page snaps back
+    cancel?: SoundSource;
+
+    // Volume of a fast turn, from 0 to 1. Slower drags play quieter
+    volume?: number;
+
+    // Starts muted
+    muted?: boolean;
+
+    // Stays silent while the user prefers reduced motion
+    respectReducedMotion?: boolean;
+}
@@ -0,0 +1,78 @@
+import { defaultUrlSyncOptions } from "./constants";
+import type { TurnPage } from "./leaf-page";
+import type { UrlSyncOptions } from "./types";
+
+// Mirrors the current page of a book in the URL and follows back/forward navigation
+export class UrlSync {
+    private book: TurnPage;
+    private options: Required<UrlSyncOptions>;
+
+    private onPageChanged = this.handlePageChanged.bind(this);
+    private onNavigate = this.handleNavigate.bind(this);
+
+    constructor(book: TurnPage, options: Partial<UrlSyncOptions> = {}) {
+        this.book = book;
+        this.options = { ...defaultUrlSyncOptions, ...options };
+
+        // Restore the page from the URL without animating
+        const page = this.readPage();
+        if (page !== undefined) {
+            this.book.setPage(page, { animate: false });
+        }
+
+        this.book.on('pageChanged', this.onPageChanged);
+        window.addEventListener('popstate', this.onNavigate);
+        window.addEventListener('hashchange', this.onNavigate);
+    }
+
+    private getParams(url: URL): URLSearchParams {
+        return this.options.mode === 'hash'
+            ? new URLSearchParams(url.hash.slice(1))
+            : url.searchParams;
+    }
+
+    private readPage(): number | undefined {
+        const value = this.getParams(new URL(window.location.href)).get(this.options.param);
+        const page = Number(value);
+
+        if (!value || !Number.isInteger(page) || page < 1 || page > this.book.getTotalPages()) {
+            return undefined;
+        }
+
+        return page;
+    }
+
+    private handlePageChanged(): void {
+        const page = this.book.getPage();
+
+        // Changes coming from the URL are already there
+        if (this.readPage() === page) return;
+
+        const url = new URL(window.location.href);
+        const params = this.getParams(url);
+        params.set(this.options.param, String(page));
+
+        if (this.options.mode === 'hash') {
+            url.hash = params.toString();
+        }
+
+        if (this.options.history === 'push') {
+            window.history.pushState(window.history.state, '', url);
+        } else {
+            window.history.replaceState(window.history.state, '', url);
+        }
+    }
+
+    private handleNavigate(): void {
+        const page = this.readPage();
+        if (page === undefined || page === this.book.getPage()) return;
+
+        this.book.setPage(page);
+    }
+
+    public destroy(): void {
+        this.book.off('pageChanged', this.onPageChanged);
+        window.removeEventListener('popstate', this.onNavigate);
+        window.removeEventListener('hashchange', this.onNavigate);
+    }
+}
@@ -74,10 +74,53 @@ export class Utils {
             mum13 * p1.y + 3 * t * mum1 * mum1 * p2.y + 3 * t * t * mum1 * p3.y + mu3 * p4.y
         );
 
+        // Animation frames rarely repeat a t, so keep the cache from growing forever
+        if (this.memoizedBezier.size >= 1000) {
+            this.memoizedBezier.clear();
+        }
+
         this.memoizedBezier.set(key, point);
         return point;
     }
 
+    // Reflection across the line through `origin` with unit `normal`, as CSS matrix() values
+    static reflection(origin: Point2D, normal: Point2D): number[] {
+        const d = 2 * (origin.x * normal.x + origin.y * normal.y);
+        return [
+            1 - 2 * normal.x * normal.x, -2 * normal.x * normal.y,
+            -2 * normal.x * normal.y, 1 - 2 * normal.y * normal.y,
+            d * normal.x, d * normal.y
+        ];
+    }
+
+    // Keep the part of a polygon where (p - origin) · normal >= 0
+    static clipPolygon(polygon: Point2D[], origin: Point2D, normal: Point2D): Point2D[] {
+        const side = (p: Point2D) => (p.x - origin.x) * normal.x + (p.y - origin.y) * normal.y;
+        const result: Point2D[] = [];
+
+        polygon.forEach((current, i) => {
+            const next = polygon[(i + 1) % polygon.length]!;
+            const a = side(current);
+            const b = side(next);
+
+            if (a >= 0) result.push(current);
+            if ((a >= 0) !== (b >= 0)) {
+                const t = a / (a - b);
+                result.push(this.createPoint2D(
+                    current.x + (next.x - current.x) * t,
+                    current.y + (next.y - current.y) * t
+                ));
+            }
+        });
+
+        return result;
+    }
+
+    static polygon(points: Point2D[]): string {
+        if (points.length < 3) return 'polygon(0 0, 0 0, 0 0)';
+        return `polygon(${points.map(p => `${p.x}px ${p.y}px`).join(', ')})`;
+    }
+
     // Add cleanup method for memoization
     static clearMemoization(): void {
         this.memoizedBezier.clear();
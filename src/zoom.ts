@@ -0,0 +1,262 @@
+import type { PinchGesture } from "./input";
+import type { PageProvider, Point2D } from "./types";
+
+export interface ZoomPage {
+    page: number;
+    // Index the provider knows the page by, if any
+    source?: number;
+    wrapper: HTMLElement;
+    element: HTMLElement;
+}
+
+export interface ZoomHandlers {
+    // Pages currently on screen
+    pages: () => ZoomPage[];
+    dispatch: (name: 'zoomIn' | 'zoomOut', detail: { level: number }) => void;
+}
+
+export interface ZoomOptions {
+    max: number;
+    duration: number;
+    // Higher resolution content shown while zoomed
+    provider?: PageProvider;
+}
+
+interface ZoomState {
+    scale: number;
+    x: number;
+    y: number;
+}
+
+// Taps closer than this in time (ms) and distance (px) make a double tap
+const DOUBLE_TAP_TIME = 300;
+const DOUBLE_TAP_DISTANCE = 30;
+
+// Level used when double tapping a fitted book
+const DOUBLE_TAP_ZOOM = 2;
+
+// Scales and pans the visible pages of a book. Every visible wrapper gets the
+// same transform around the book's origin, so spreads zoom as one surface.
+export class Zoom {
+    private element: HTMLElement;
+    private handlers: ZoomHandlers;
+    private options: ZoomOptions;
+    private state: ZoomState = { scale: 1, x: 0, y: 0 };
+    private lastTap?: Point2D & { time: number };
+    private panStart?: Point2D & { x0: number; y0: number };
+    private pinchStart?: ZoomState & { center: Point2D };
+    private overflow = '';
+    private swapped: Record<number, { original: HTMLElement; replacement: HTMLElement }> = {};
+    // Wrappers given a transform, which may be off screen by now
+    private transformed = new Set<HTMLElement>();
+    private settle?: ReturnType<typeof setTimeout>;
+
+    constructor(element: HTMLElement, handlers: ZoomHandlers, options: ZoomOptions) {
+        this.element = element;
+        this.handlers = handlers;
+        this.options = options;
+    }
+
+    public get level(): number {
+        return this.state.scale;
+    }
+
+    public isZoomed(): boolean {
+        return this.state.scale > 1;
+    }
+
+    public isPanning(): boolean {
+        return this.panStart !== undefined;
+    }
+
+    // Zoom keeping `origin` (relative to the book) in place, the center by default
+    public set(level: number, origin?: Point2D, animate: boolean = true): void {
+        const width = this.element.offsetWidth;
+        const height = this.element.offsetHeight;
+        const scale = Math.max(1, Math.min(level, this.options.max));
+        const point = origin ?? { x: width / 2, y: height / 2 };
+        const ratio = scale / this.state.scale;
+
+        this.apply({
+            scale,
+            x: point.x - (point.x - this.state.x) * ratio,
+            y: point.y - (point.y - this.state.y) * ratio
+        }, animate);
+    }
+
+    public reset(animate: boolean = true): void {
+        this.set(1, undefined, animate);
+    }
+
+    // Returns true when the tap completes a double tap, which toggles the zoom
+    public tap(point: Point2D): boolean {
+        const now = performance.now();
+        const last = this.lastTap;
+
+        if (last && now - last.time < DOUBLE_TAP_TIME
+            && Math.hypot(point.x - last.x, point.y - last.y) < DOUBLE_TAP_DISTANCE) {
+            this.lastTap = undefined;
+            this.set(this.isZoomed() ? 1 : Math.min(DOUBLE_TAP_ZOOM, this.options.max), point);
+            return true;
+        }
+
+        this.lastTap = { ...point, time: now };
+        return false;
+    }
+
+    // Keep the last tap from starting a double tap
+    public cancelTap(): void {
+        this.lastTap = undefined;
+    }
+
+    public startPan(point: Point2D): boolean {
+        if (!this.isZoomed()) return false;
+
+        this.panStart = { ...point, x0: this.state.x, y0: this.state.y };
+        return true;
+    }
+
+    public pan(point: Point2D): void {
+        if (!this.panStart) return;
+
+        this.apply({
+            scale: this.state.scale,
+            x: this.panStart.x0 + point.x - this.panStart.x,
+            y: this.panStart.y0 + point.y - this.panStart.y
+        }, false);
+    }
+
+    public endPan(): void {
+        this.panStart = undefined;
+    }
+
+    public pinch(gesture: PinchGesture): void {
+        if (gesture.phase === 'start') {
+            this.panStart = undefined;
+            this.pinchStart = { ...this.state, center: gesture.center };
+            return;
+        }
+
+        const start = this.pinchStart;
+        if (!start) return;
+
+        if (gesture.phase === 'end') {
+            this.pinchStart = undefined;
+
+            // Snap back to the fitted layout when barely zoomed
+            if (this.state.scale < 1.05) this.reset();
+            return;
+        }
+
+        // Scale around the starting midpoint and follow the fingers
+        const scale = Math.max(1, Math.min(start.scale * gesture.scale, this.options.max));
+        const ratio = scale / start.scale;
+
+        this.apply({
+            scale,
+            x: gesture.center.x - (start.center.x - start.x) * ratio,
+            y: gesture.center.y - (start.center.y - start.y) * ratio
+        }, false);
+    }
+
+    private apply(state: ZoomState, animate: boolean): void {
+        const width = this.element.offsetWidth;
+        const height = this.element.offsetHeight;
+        const wasZoomed = this.isZoomed();
+
+        // Keep the pages covering the whole book
+        this.state = {
+            scale: state.scale,
+            x: Math.min(0, Math.max(width * (1 - state.scale), state.x)),
+            y: Math.min(0, Math.max(height * (1 - state.scale), state.y))
+        };
+
+        clearTimeout(this.settle);
+
+        if (!wasZoomed && this.isZoomed()) {
+            this.overflow = this.element.style.overflow;
+            this.element.style.overflow = 'hidden';
+        }
+
+        const transition = animate ? `transform ${this.options.duration}ms ease-out` : '';
+        const transform = this.isZoomed()
+            ? `translate(${this.state.x}px, ${this.state.y}px) scale(${this.state.scale})`
+            : '';
+
+        // Measure every page before styling any, so pans don't force a layout per page
+        const pages = this.handlers.pages().map(({ wrapper }) => ({ wrapper, left: wrapper.offsetLeft }));
+
+        pages.forEach(({ wrapper, left }) => {
+            wrapper.style.transformOrigin = `${-left}px 0px`;
+            wrapper.style.transition = transition;
+            wrapper.style.transform = transform;
+            this.transformed.add(wrapper);
+        });
+
+        if (!wasZoomed && this.isZoomed()) {
+            this.swapIn();
+            this.handlers.dispatch('zoomIn', { level: this.state.scale });
+        } else if (wasZoomed && !this.isZoomed()) {
+            this.panStart = undefined;
+            this.swapOut();
+            this.handlers.dispatch('zoomOut', { level: this.state.scale });
+
+            // Restore the fitted layout once the pages are back in place
+            if (animate) {
+                this.settle = setTimeout(() => this.clear(), this.options.duration);
+            } else {
+                this.clear();
+            }
+        }
+    }
+
+    private clear(): void {
+        this.element.style.overflow = this.overflow;
+        this.transformed.forEach(wrapper => {
+            wrapper.style.transition = '';
+            wrapper.style.transformOrigin = '';
+            wrapper.style.transform = '';
+        });
+        this.transformed.clear();
+    }
+
+    // Replace the visible pages with their high resolution versions
+    private swapIn(): void {
+        const provider = this.options.provider;
+        if (!provider) return;
+
+        this.handlers.pages().forEach(({ page, source, element }) => {
+            if (source === undefined) return;
+
+            Promise.resolve()
+                .then(() => provider(source))
+                .then(replacement => {
+                    if (!this.isZoomed() || this.swapped[page] || !element.parentElement) return;
+
+                    replacement.style.width = element.style.width;
+                    replacement.style.height = element.style.height;
+                    element.replaceWith(replacement);
+                    this.swapped[page] = { original: element, replacement };
+                })
+                .catch(error => {
+                    console.warn(`Failed to load zoomed page ${page}`, error);
+                });
+        });
+    }
+
+    private swapOut(): void {
+        Object.values(this.swapped).forEach(({ original, replacement }) => {
+            replacement.replaceWith(original);
+        });
+        this.swapped = {};
+    }
+
+    public destroy(): void {
+        clearTimeout(this.settle);
+        if (this.isZoomed()) {
+            this.swapOut();
+            this.state = { scale: 1, x: 0, y: 0 };
+            this.clear();
+        }
+    }
+}